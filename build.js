@@ -1,18 +1,33 @@
 import esbuild from "esbuild";
 
+const external = [
+  "react",
+  "react-dom",
+  "viem",
+  "@dfinity/agent",
+  "@dfinity/candid",
+  "@dfinity/identity",
+];
+
 esbuild.build({
   entryPoints: ["./src/index.tsx"],
   bundle: true,
   outdir: "dist",
   format: "esm",
   splitting: true,
-  external: [
-    "react",
-    "react-dom",
-    "viem",
-    "@dfinity/agent",
-    "@dfinity/candid",
-    "@dfinity/identity",
-  ],
+  external,
+  // Mark the bundle as client code for React Server Components.
+  banner: { js: '"use client";' },
+  plugins: [],
+});
+
+// Server helpers are built separately, without the client directive, so that server
+// components can call them.
+esbuild.build({
+  entryPoints: ["./src/server.ts"],
+  bundle: true,
+  outdir: "dist",
+  format: "esm",
+  external,
   plugins: [],
 });
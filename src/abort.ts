@@ -0,0 +1,55 @@
+import { WebAuthnAbortService } from "@simplewebauthn/browser";
+import { SiwpError } from "./error";
+
+function abortError(signal: AbortSignal) {
+  return new SiwpError("ABORTED", "The operation was aborted.", {
+    cause: signal.reason,
+  });
+}
+
+/**
+ * Throws an `ABORTED` error if the signal has been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+/**
+ * Rejects with an `ABORTED` error as soon as the signal is aborted. Canister calls can't
+ * be cancelled, so the result of an aborted call is ignored.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+/**
+ * Runs a webauthn ceremony and cancels it when the signal is aborted.
+ */
+export async function abortableCeremony<T>(
+  ceremony: () => Promise<T>,
+  signal?: AbortSignal
+) {
+  throwIfAborted(signal);
+
+  const onAbort = () => WebAuthnAbortService.cancelCeremony();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    return await ceremony();
+  } catch (e) {
+    throwIfAborted(signal);
+    throw e;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
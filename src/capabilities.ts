@@ -0,0 +1,50 @@
+import { IDL } from "@dfinity/candid";
+
+export type SiwpCapabilities = {
+  /** The canister implements `siwp_prepare_login` and `siwp_login`, logins without a
+   * username using discoverable passkeys. */
+  supportsDiscoverableLogin: boolean;
+
+  /** The canister implements `siwp_prepare_login_username` and `siwp_login_username`. */
+  supportsUsernameLogin: boolean;
+
+  /** The canister implements `siwp_prepare_register` and `siwp_register`. */
+  supportsRegistration: boolean;
+
+  /** The login methods and `siwp_get_delegation` take the trailing `Targets` argument, so
+   * delegations can be restricted to canisters. Required for the `targets` option. */
+  supportsDelegationTargets: boolean;
+};
+
+// The number of arguments of the methods that issue delegations, without `Targets`.
+const ARGS_WITHOUT_TARGETS: Record<string, number> = {
+  siwp_login: 4,
+  siwp_login_username: 3,
+  siwp_get_delegation: 3,
+};
+
+/**
+ * Detects the SIWP flows a canister supports from the methods its IDL factory exposes.
+ */
+export function detectCapabilities(
+  idlFactory: IDL.InterfaceFactory | undefined
+): SiwpCapabilities {
+  const fields = idlFactory ? idlFactory({ IDL })._fields : [];
+  const methods = new Set(fields.map(([name]) => name));
+  const has = (...names: string[]) => names.every((name) => methods.has(name));
+  const takesTargets = fields.every(
+    ([name, func]) =>
+      !(name in ARGS_WITHOUT_TARGETS) ||
+      func.argTypes.length > (ARGS_WITHOUT_TARGETS[name] ?? 0)
+  );
+
+  return {
+    supportsDiscoverableLogin: has("siwp_prepare_login", "siwp_login"),
+    supportsUsernameLogin: has(
+      "siwp_prepare_login_username",
+      "siwp_login_username"
+    ),
+    supportsRegistration: has("siwp_prepare_register", "siwp_register"),
+    supportsDelegationTargets: has("siwp_get_delegation") && takesTargets,
+  };
+}
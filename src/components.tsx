@@ -0,0 +1,274 @@
+import {
+  type ButtonHTMLAttributes,
+  type ReactNode,
+  useEffect,
+  useState,
+} from "react";
+import type { DelegationIdentity } from "@dfinity/identity";
+import type { IdentityLoginResponse } from "./context.type";
+import type { IdentityActor, UntypedService } from "./state.type";
+import { type SiwpError, toSiwpError } from "./error";
+import { useIcIdentity } from "./identity-context";
+
+/**
+ * The state of the login button. `passkey` covers fetching the challenge and the passkey
+ * prompt, `logging-in` the backend login after it.
+ */
+export type SiwpLoginButtonStatus =
+  | "unavailable"
+  | "idle"
+  | "passkey"
+  | "logging-in"
+  | "error";
+
+export type SiwpLoginButtonRenderProps = {
+  status: SiwpLoginButtonStatus;
+  /** Starts the login. Does nothing while a login is running. */
+  login: () => void;
+  isDisabled: boolean;
+  /** The error of the last failed login, if any. */
+  error?: SiwpError;
+};
+
+export type SiwpLoginButtonProps = Omit<
+  ButtonHTMLAttributes<HTMLButtonElement>,
+  "children" | "onClick" | "onError"
+> & {
+  /** Logs in with the passkey of this uid. Without it, the user picks a discoverable
+   * passkey. */
+  uid?: string;
+  /** Called with the login response once the login has completed. */
+  onLogin?: (response: IdentityLoginResponse) => void;
+  /** Called when the login fails. Aborted logins are not reported. */
+  onError?: (error: SiwpError) => void;
+  /** The button label, or a render function that renders the whole control. */
+  children?: ReactNode | ((props: SiwpLoginButtonRenderProps) => ReactNode);
+};
+
+const LOGIN_BUTTON_LABELS: Record<SiwpLoginButtonStatus, string> = {
+  unavailable: "Log in with passkey",
+  idle: "Log in with passkey",
+  passkey: "Waiting for passkey…",
+  "logging-in": "Logging in…",
+  error: "Try again",
+};
+
+/**
+ * Unstyled button that logs in with a passkey and reflects the prepare and login states.
+ * Pass a function as children to render your own control.
+ *
+ * @example
+ * ```tsx
+ * <SiwpLoginButton className="btn" onLogin={() => navigate("/app")} />
+ *
+ * <SiwpLoginButton>
+ *   {({ login, status, isDisabled }) => (
+ *     <MyButton disabled={isDisabled} loading={status !== "idle"} onPress={login}>
+ *       Sign in
+ *     </MyButton>
+ *   )}
+ * </SiwpLoginButton>
+ * ```
+ */
+export function SiwpLoginButton({
+  uid,
+  onLogin,
+  onError,
+  children,
+  disabled,
+  ...buttonProps
+}: SiwpLoginButtonProps) {
+  const {
+    login,
+    isInitializing,
+    isPreparingLogin,
+    isLoggingIn,
+    prepareLoginError,
+    loginError,
+    supportsDiscoverableLogin,
+    supportsUsernameLogin,
+  } = useIcIdentity();
+
+  const isSupported =
+    uid === undefined ? supportsDiscoverableLogin : supportsUsernameLogin;
+  const error = prepareLoginError ?? loginError;
+
+  let status: SiwpLoginButtonStatus;
+  if (!isSupported || isInitializing) {
+    status = "unavailable";
+  } else if (isPreparingLogin) {
+    status = "passkey";
+  } else if (isLoggingIn) {
+    status = "logging-in";
+  } else if (error) {
+    status = "error";
+  } else {
+    status = "idle";
+  }
+
+  const isBusy = status === "passkey" || status === "logging-in";
+  const isDisabled = !!disabled || isBusy || status === "unavailable";
+
+  const startLogin = () => {
+    if (isDisabled) return;
+    login(uid).then(onLogin, (e) => {
+      const error = toSiwpError(e, "LOGIN_FAILED", "Unable to login.");
+      if (error.code !== "ABORTED") {
+        onError?.(error);
+      }
+    });
+  };
+
+  if (typeof children === "function") {
+    return <>{children({ status, login: startLogin, isDisabled, error })}</>;
+  }
+
+  return (
+    <button
+      type="button"
+      {...buttonProps}
+      aria-busy={isBusy}
+      disabled={isDisabled}
+      onClick={startLogin}
+    >
+      {children ?? LOGIN_BUTTON_LABELS[status]}
+    </button>
+  );
+}
+
+export type RequireIdentityRenderProps<
+  T extends UntypedService = UntypedService,
+> = {
+  identity: DelegationIdentity;
+  identityId?: string;
+  identityActor?: IdentityActor<T>;
+};
+
+export type RequireIdentityProps<T extends UntypedService = UntypedService> = {
+  /** Rendered when there is no identity, for example a login button. */
+  fallback?: ReactNode;
+  /** Rendered until the stored identity has been loaded, also on the server. Defaults to
+   * nothing. */
+  loading?: ReactNode;
+  /** The protected content, or a function that renders it with the identity. */
+  children: ReactNode | ((props: RequireIdentityRenderProps<T>) => ReactNode);
+};
+
+/**
+ * Renders its children only when the user is logged in, and `fallback` otherwise.
+ *
+ * @example
+ * ```tsx
+ * <RequireIdentity<_SERVICE> fallback={<SiwpLoginButton />}>
+ *   {({ identityActor }) => <Dashboard actor={identityActor} />}
+ * </RequireIdentity>
+ * ```
+ */
+export function RequireIdentity<T extends UntypedService = UntypedService>({
+  fallback = null,
+  loading = null,
+  children,
+}: RequireIdentityProps<T>) {
+  const { authStatus, identity, identityId, identityActor } =
+    useIcIdentity<T>();
+
+  if (authStatus === "unknown") return <>{loading}</>;
+  if (!identity) return <>{fallback}</>;
+
+  return (
+    <>
+      {typeof children === "function"
+        ? children({ identity, identityId, identityActor })
+        : children}
+    </>
+  );
+}
+
+export type SessionInfoRenderProps = {
+  principal: string;
+  uid?: string;
+  expiresAt: Date;
+  /** The time left until the delegation expires in ms, updated every `interval`. */
+  timeLeft: number;
+};
+
+export type SessionInfoProps = {
+  /** How often the time left is updated in ms. Defaults to 1000. */
+  interval?: number;
+  className?: string;
+  /** A function that renders the session details. */
+  children?: (props: SessionInfoRenderProps) => ReactNode;
+};
+
+/**
+ * Formats a duration as `1h 05m` or `4m 09s`.
+ */
+function formatTimeLeft(ms: number) {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  if (seconds >= 3600) {
+    return `${Math.floor(seconds / 3600)}h ${pad(
+      Math.floor((seconds % 3600) / 60)
+    )}m`;
+  }
+  return `${Math.floor(seconds / 60)}m ${pad(seconds % 60)}s`;
+}
+
+/**
+ * Shows the principal, uid and remaining session time of the current identity. Renders
+ * nothing when the user is not logged in.
+ *
+ * @example
+ * ```tsx
+ * <SessionInfo>
+ *   {({ principal, timeLeft }) => (
+ *     <Badge title={principal}>{Math.ceil(timeLeft / 60000)} min</Badge>
+ *   )}
+ * </SessionInfo>
+ * ```
+ */
+export function SessionInfo({
+  interval = 1000,
+  className,
+  children,
+}: SessionInfoProps) {
+  const { identity, identityId, expiresAt } = useIcIdentity();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!expiresAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [expiresAt, interval]);
+
+  if (!identity || !expiresAt) return null;
+
+  const info: SessionInfoRenderProps = {
+    principal: identity.getPrincipal().toText(),
+    uid: identityId,
+    expiresAt,
+    timeLeft: Math.max(0, expiresAt.getTime() - now),
+  };
+
+  if (children) return <>{children(info)}</>;
+
+  return (
+    <dl className={className}>
+      {info.uid !== undefined && (
+        <>
+          <dt>Account</dt>
+          <dd>{info.uid}</dd>
+        </>
+      )}
+      <dt>Principal</dt>
+      <dd>{info.principal}</dd>
+      <dt>Session expires in</dt>
+      <dd>
+        <time dateTime={info.expiresAt.toISOString()}>
+          {formatTimeLeft(info.timeLeft)}
+        </time>
+      </dd>
+    </dl>
+  );
+}
@@ -1,31 +1,81 @@
-import {
-  DelegationChain,
-  DelegationIdentity,
-  Ed25519KeyIdentity,
-} from "@dfinity/identity";
+import { DelegationChain, DelegationIdentity } from "@dfinity/identity";
 import type { DerEncodedPublicKey } from "@dfinity/agent";
+import type { Principal } from "@dfinity/principal";
 import type {
+  AuthStatus,
   LoginStatus,
   PrepareLoginStatus,
+  RegisterStatus,
   AnonymousActor,
   IdentityActor,
+  UntypedService,
 } from "./state.type";
-import {
-  type BindingDelegationDeatils,
-  type PublicKey,
-} from "./service.interface";
+import { type PublicKey } from "./service.interface";
+import type { IdentityAccount, SessionIdentity } from "./storage.type";
+import type { SiwpError } from "./error";
+import type { SiwpEventListener, SiwpEventName } from "./events";
+import type { SiwpCapabilities } from "./capabilities";
 
 export type IdentityLoginResponse = {
-  identity?: DelegationIdentity;
+  identity: DelegationIdentity;
   username: string;
 };
 
-export type IdentityContextType = {
+export type SessionKeyLoginResponse = {
+  username: string;
+  /** The delegation chain for the external session key. */
+  delegationChain: DelegationChain;
+  /** The point in time when the delegation chain expires. */
+  expiresAt: Date;
+};
+
+export type LoginOptions = {
+  /** Aborts the login. The passkey prompt is closed and the results of pending canister calls
+   * are ignored. */
+  signal?: AbortSignal;
+};
+
+export type ReauthenticateOptions = LoginOptions & {
+  /** The time (in ms) the step-up delegation is valid for. Defaults to 5 minutes. */
+  expiration?: number;
+  /** Restricts the step-up delegation to these canisters, for example the payment canister.
+   * Defaults to the `targets` of the provider, or to the provider's canister if it has none.
+   * Without `supportsDelegationTargets` the step-up delegation is unrestricted, and passing
+   * targets fails with `METHOD_NOT_SUPPORTED`. */
+  targets?: Array<Principal | string>;
+};
+
+export type ReauthenticateResponse = {
+  username: string;
+  /** An identity that is only valid until `expiresAt`. It is kept in memory only, create a
+   * separate actor with it for the sensitive calls. */
+  identity: DelegationIdentity;
+  delegationChain: DelegationChain;
+  expiresAt: Date;
+  /** The canisters the delegation is restricted to, `undefined` if it is unrestricted. */
+  targets?: Principal[];
+};
+
+/**
+ * The context also contains the flows the canister supports, see `SiwpCapabilities`.
+ * Calling `login` with a uid requires `supportsUsernameLogin`, without a uid it requires
+ * `supportsDiscoverableLogin`.
+ */
+export type IdentityContextType<T extends UntypedService = UntypedService> = {
   anonymousActor?: AnonymousActor;
-  /** Is set to `true` on mount until a stored identity is loaded from local storage or
+  /** Is set to `true` on mount until a stored identity is loaded from storage or
    * none is found. */
   isInitializing: boolean;
 
+  /** `unknown` until the stored identity has been loaded, then `authenticated` or
+   * `unauthenticated`. Always `unknown` during server-side rendering and hydration. */
+  authStatus: AuthStatus;
+
+  /** The value of the `sessionHint` prop until the stored identity has been loaded, then
+   * whether there is an identity. Use it to render logged-in layouts while `authStatus` is
+   * `unknown`. */
+  sessionHint: boolean;
+
   /** Reflects the current status of the prepareLogin process. */
   prepareLoginStatus: PrepareLoginStatus;
 
@@ -42,22 +92,37 @@ export type IdentityContextType = {
   isPrepareLoginIdle: boolean;
 
   /** Error that occurred during the prepareLogin process. */
-  prepareLoginError?: Error;
-
-  /** Initiates the login process by passkey authentication. */
-  login: (uid?: string) => Promise<IdentityLoginResponse>;
-
+  prepareLoginError?: SiwpError;
+
+  /** Initiates the login process by passkey authentication. Only one login, registration,
+   * unlock or re-authentication can run at a time, further calls are rejected with a
+   * `LOGIN_IN_PROGRESS` error. */
+  login: (
+    uid?: string,
+    options?: LoginOptions
+  ) => Promise<IdentityLoginResponse>;
+
+  /** Starts a login in the background that completes when the user picks a passkey from the
+   * browser's autofill dropdown. The page needs an input with `autocomplete="username webauthn"`.
+   * A regular `login` aborts the background request, as does aborting the signal. */
+  loginWithAutofill: (options?: LoginOptions) => Promise<IdentityLoginResponse>;
+
+  /** Logs in with a session key that lives elsewhere, for example in a browser extension or a
+   * native app, and resolves with the delegation chain for it. Hand the chain over with
+   * `toDelegationDeepLink`, `toDelegationFragment` or `toDelegationMessage`. */
   loginWithSessionKey: (
     sessionPublicKey: DerEncodedPublicKey,
-    loginUid?: string
-  ) => Promise<BindingDelegationDeatils>;
+    loginUid?: string,
+    options?: LoginOptions
+  ) => Promise<SessionKeyLoginResponse>;
 
   getDelegation(
     identityId: string,
     sessionPublicKey: DerEncodedPublicKey,
-    sessionIdentity: Ed25519KeyIdentity,
+    sessionIdentity: SessionIdentity,
     expiration: bigint,
-    user_canister_pubkey: PublicKey
+    user_canister_pubkey: PublicKey,
+    signal?: AbortSignal
   ): Promise<IdentityLoginResponse>;
 
   /** Reflects the current status of the login process. */
@@ -76,21 +141,109 @@ export type IdentityContextType = {
   isLoginIdle: boolean;
 
   /** Error that occurred during the login process. */
-  loginError?: Error;
+  loginError?: SiwpError;
+
+  /** Registers a new passkey for the username and then logs in with it. Requires the canister
+   * to implement `siwp_prepare_register` and `siwp_register`. */
+  register: (
+    username: string,
+    options?: LoginOptions
+  ) => Promise<IdentityLoginResponse>;
+
+  /** Reflects the current status of the register process. */
+  registerStatus: RegisterStatus;
+
+  /** `registerStatus === "registering"` */
+  isRegistering: boolean;
+
+  /** `registerStatus === "error"` */
+  isRegisterError: boolean;
 
-  /** The delegation chain is available after successfully loading the identity from local
-   * storage or completing the login process. */
+  /** `registerStatus === "success"` */
+  isRegisterSuccess: boolean;
+
+  /** `registerStatus === "idle"` */
+  isRegisterIdle: boolean;
+
+  /** Error that occurred during the register process. */
+  registerError?: SiwpError;
+
+  /** The delegation chain is available after successfully loading the identity from storage
+   * or completing the login process. */
   delegationChain?: DelegationChain;
 
-  /** The identity is available after successfully loading the identity from local storage
+  /** The identity is available after successfully loading the identity from storage
    * or completing the login process. */
   identity?: DelegationIdentity;
 
+  /** The point in time when the delegation chain of the current identity expires. */
+  expiresAt?: Date;
+
+  /** The canisters the delegation of the current identity is restricted to, `undefined` if it
+   * is valid for all canisters. */
+  targets?: Principal[];
+
+  /** Is set to `true` when the session has been ended because the delegation expired, either
+   * while the app was running or before a stored identity could be loaded. Reset on the next
+   * login. */
+  isExpired: boolean;
+
+  /** Is set to `true` when the session has been ended because the IC rejected the delegation
+   * of the identity, for example because it was revoked. Reset on the next login. */
+  isSessionInvalid: boolean;
+
+  /** The attempt of the backend call the running login, registration or re-authentication
+   * is waiting for, starting at 1. Greater than 1 while failed calls are retried, see the
+   * `retry` option. `0` when no such call is running. */
+  requestAttempt: number;
+
+  /** Is set to `true` when an encrypted session was found in storage and has to be unlocked
+   * with `unlock` before it can be used. Only used with `encryptSession`. */
+  isLocked: boolean;
+
+  /** Asks the user to touch their passkey again before a sensitive action and resolves with
+   * a short-lived delegation for it. The current session is not replaced. */
+  reauthenticate: (
+    options?: ReauthenticateOptions
+  ) => Promise<ReauthenticateResponse>;
+
+  /** Asks the user to touch their passkey to decrypt the stored session. */
+  unlock: (options?: LoginOptions) => Promise<IdentityLoginResponse>;
+
+  /** Is set to `true` during the warning window before the user is logged out for being
+   * idle. Only used when the provider is configured with `idleOptions`. */
+  isIdleWarning: boolean;
+
+  /** Restarts the idle timer and ends the warning window in all tabs. Call this when the
+   * user confirms they want to stay logged in. */
+  extendSession: () => void;
+
   /** The uid with current identity. */
   identityId?: string;
 
-  identityActor?: IdentityActor;
+  /** Actor for the canister, authenticated with the current identity. Typed with the service
+   * type passed to `useIcIdentity<_SERVICE>()`. */
+  identityActor?: IdentityActor<T>;
+
+  /** All accounts with a stored identity on this device. Logging in with another uid adds
+   * an account instead of replacing the current one. */
+  accounts: IdentityAccount[];
 
-  /** Clears the identity from the state and local storage. Effectively "logs the user out". */
+  /** Switches to another account with a stored identity without logging in again. */
+  switchAccount: (uid: string) => Promise<void>;
+
+  /** Removes the stored identity of an account. Removing the current account logs the user
+   * out. */
+  removeAccount: (uid: string) => Promise<void>;
+
+  /** Clears the identity of the current account from the state and storage. Effectively
+   * "logs the user out". Other accounts stay stored. */
   clear: () => void;
-};
+
+  /** Registers a listener for a lifecycle event, see `SiwpEventMap` for the events and their
+   * payloads. Returns a function that removes the listener. */
+  on: <E extends SiwpEventName>(
+    event: E,
+    listener: SiwpEventListener<E>
+  ) => () => void;
+} & SiwpCapabilities;
@@ -0,0 +1,148 @@
+import type { SignIdentity } from "@dfinity/agent";
+import {
+  DelegationChain,
+  DelegationIdentity,
+  type JsonnableDelegationChain,
+} from "@dfinity/identity";
+import type { Principal } from "@dfinity/principal";
+import { SiwpError } from "./error";
+import { verifyDelegationChain } from "./verify-delegation";
+
+/**
+ * The name of the URL fragment parameter that carries the delegation.
+ */
+export const DELEGATION_PARAM = "delegation";
+
+/**
+ * The `type` of messages created with `toDelegationMessage`.
+ */
+export const DELEGATION_MESSAGE_TYPE = "siwp-delegation";
+
+/**
+ * A delegation chain wrapped for `postMessage`. Only contains structured-clonable values.
+ */
+export type DelegationMessage = {
+  type: typeof DELEGATION_MESSAGE_TYPE;
+  delegationChain: JsonnableDelegationChain;
+};
+
+function toBase64Url(value: string) {
+  return btoa(value)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+}
+
+/**
+ * Serializes the delegation chain to a JSON string. Delegation chains contain no private
+ * keys, but anyone holding the chain and the session key can act as the user.
+ */
+export function serializeDelegation(delegationChain: DelegationChain) {
+  return JSON.stringify(delegationChain.toJSON());
+}
+
+/**
+ * Encodes the delegation chain as a URL fragment, `#delegation=<base64url>`. Fragments are
+ * not sent to servers.
+ */
+export function toDelegationFragment(delegationChain: DelegationChain) {
+  return `#${DELEGATION_PARAM}=${toBase64Url(
+    serializeDelegation(delegationChain)
+  )}`;
+}
+
+/**
+ * Appends the delegation chain as URL fragment to a deep link such as
+ * `my-app://auth/callback`, replacing any existing fragment.
+ */
+export function toDelegationDeepLink(
+  url: string,
+  delegationChain: DelegationChain
+) {
+  return url.split("#")[0] + toDelegationFragment(delegationChain);
+}
+
+/**
+ * Wraps the delegation chain in a message for `postMessage`.
+ */
+export function toDelegationMessage(
+  delegationChain: DelegationChain
+): DelegationMessage {
+  return {
+    type: DELEGATION_MESSAGE_TYPE,
+    delegationChain: delegationChain.toJSON(),
+  };
+}
+
+/**
+ * Reads a delegation chain from any of the encodings: a URL or deep link with the
+ * delegation fragment, the fragment itself, a `DelegationMessage` or a serialized chain.
+ */
+function decodeDelegation(
+  encoded: string | DelegationMessage
+): DelegationChain {
+  try {
+    if (typeof encoded !== "string") {
+      if (encoded?.type !== DELEGATION_MESSAGE_TYPE) {
+        throw new Error("Not a delegation message.");
+      }
+      return DelegationChain.fromJSON(encoded.delegationChain);
+    }
+
+    if (encoded.trim().startsWith("{")) {
+      return DelegationChain.fromJSON(encoded);
+    }
+
+    const fragment = encoded.slice(encoded.indexOf("#") + 1);
+    const value = new URLSearchParams(fragment).get(DELEGATION_PARAM);
+    return DelegationChain.fromJSON(fromBase64Url(value ?? fragment));
+  } catch (e) {
+    throw new SiwpError(
+      "DELEGATION_INVALID",
+      "The delegation could not be decoded.",
+      { cause: e }
+    );
+  }
+}
+
+/**
+ * Imports a delegation chain obtained with `loginWithSessionKey` on the receiving side,
+ * that is, where the session key lives. The delegation is verified to be issued to the
+ * session key, to be unexpired and, if given, to be restricted to the targets.
+ *
+ * @example
+ * ```ts
+ * const sessionIdentity = Ed25519KeyIdentity.generate();
+ * // Send sessionIdentity.getPublicKey().toDer() to the web app, which calls loginWithSessionKey
+ * // and redirects back with toDelegationDeepLink.
+ * const { identity } = await importDelegation(window.location.hash, sessionIdentity);
+ * ```
+ *
+ * @throws {SiwpError} A `DELEGATION_INVALID` error if the delegation can't be decoded or
+ * doesn't pass verification.
+ */
+export async function importDelegation(
+  encoded: string | DelegationMessage,
+  sessionIdentity: SignIdentity,
+  { targets }: { targets?: Principal[] } = {}
+) {
+  const delegationChain = decodeDelegation(encoded);
+
+  await verifyDelegationChain(delegationChain, {
+    sessionPublicKey: sessionIdentity.getPublicKey().toDer(),
+    targets,
+  });
+
+  return {
+    delegationChain,
+    identity: DelegationIdentity.fromDelegation(
+      sessionIdentity,
+      delegationChain
+    ),
+  };
+}
@@ -46,3 +46,54 @@ export function createDelegationChain(
     asDerEncodedPublicKey(publicKey)
   );
 }
+
+/**
+ * Returns the point in time when the delegation chain expires, that is, the earliest
+ * expiration of all delegations in the chain.
+ */
+export function getDelegationChainExpiration(
+  delegationChain: DelegationChain
+): Date {
+  const expiration = delegationChain.delegations.reduce(
+    (earliest, { delegation }) =>
+      delegation.expiration < earliest ? delegation.expiration : earliest,
+    delegationChain.delegations[0]?.delegation.expiration ?? BigInt(0)
+  );
+  return new Date(Number(expiration / BigInt(1000000)));
+}
+
+/**
+ * Returns `true` if the delegation chain has expired.
+ */
+export function isDelegationChainExpired(
+  delegationChain: DelegationChain
+): boolean {
+  return getDelegationChainExpiration(delegationChain).getTime() <= Date.now();
+}
+
+/**
+ * Returns the canisters the delegation chain is restricted to, that is, the targets of the
+ * first delegation that has any, or `undefined` if the chain is not restricted.
+ */
+export function getDelegationChainTargets(
+  delegationChain: DelegationChain
+): Principal[] | undefined {
+  return delegationChain.delegations.find(
+    ({ delegation }) => delegation.targets !== undefined
+  )?.delegation.targets;
+}
+
+/**
+ * Returns `true` if the targets match the requested targets, regardless of order. If no
+ * targets are requested, any targets match.
+ */
+export function matchesDelegationTargets(
+  targets: Principal[] | undefined,
+  requestedTargets: Principal[] | undefined
+): boolean {
+  if (!requestedTargets || requestedTargets.length === 0) return true;
+  if (!targets || targets.length !== requestedTargets.length) return false;
+
+  const requested = new Set(requestedTargets.map((t) => t.toText()));
+  return targets.every((t) => requested.has(t.toText()));
+}
@@ -1,5 +1,104 @@
+import { WebAuthnError } from "@simplewebauthn/browser";
+
+export type SiwpErrorCode =
+  /** The user cancelled the passkey prompt or it timed out. */
+  | "WEBAUTHN_CANCELLED"
+  /** The browser does not support WebAuthn. */
+  | "WEBAUTHN_NOT_SUPPORTED"
+  /** The passkey prompt failed for another reason, see `cause`. */
+  | "WEBAUTHN_FAILED"
+  /** The backend could not prepare the login or returned invalid options. */
+  | "PREPARE_FAILED"
+  /** The login call to the backend failed. */
+  | "LOGIN_FAILED"
+  /** The backend rejected the passkey assertion, see `canisterError`. */
+  | "LOGIN_REJECTED"
+  /** A login, registration, unlock or re-authentication is already running. */
+  | "LOGIN_IN_PROGRESS"
+  /** The operation was aborted through its `AbortSignal`. */
+  | "ABORTED"
+  /** The backend could not register the passkey, see `canisterError`. */
+  | "REGISTER_FAILED"
+  /** The delegation could not be fetched from the backend. */
+  | "DELEGATION_FAILED"
+  /** The delegation returned by the backend or found in storage is not the one requested. */
+  | "DELEGATION_INVALID"
+  /** The actor is not available, most likely because of missing options. */
+  | "ACTOR_NOT_READY"
+  /** The canister does not implement the requested method. */
+  | "METHOD_NOT_SUPPORTED"
+  /** There is no stored identity. */
+  | "NO_STORED_IDENTITY"
+  /** The stored identity could not be read and was quarantined. */
+  | "STORAGE_CORRUPT"
+  /** The IC rejected the signature or delegation of the current identity. */
+  | "SESSION_INVALID"
+  /** The stored session is encrypted and needs to be unlocked with the passkey. */
+  | "SESSION_LOCKED"
+  /** The stored session could not be decrypted with the passkey. */
+  | "UNLOCK_FAILED"
+  /** Anything not covered by the other codes, see `cause`. */
+  | "UNKNOWN";
+
+/**
+ * Error thrown by all SIWP operations. Use `code` to tell failures apart, `cause` holds
+ * the original error and `canisterError` the `Err` payload returned by the canister.
+ */
+export class SiwpError extends Error {
+  readonly code: SiwpErrorCode;
+  readonly cause?: unknown;
+  readonly canisterError?: string;
+
+  constructor(
+    code: SiwpErrorCode,
+    message: string,
+    { cause, canisterError }: { cause?: unknown; canisterError?: string } = {}
+  ) {
+    super(message);
+    this.name = "SiwpError";
+    this.code = code;
+    this.cause = cause;
+    this.canisterError = canisterError;
+  }
+}
+
 export function normalizeError(error: Error | unknown): Error {
   return error instanceof Error
     ? error
     : new Error("An unknown error occurred.");
 }
+
+/**
+ * Wraps an error in a `SiwpError` with the code, unless it already is one.
+ */
+export function toSiwpError(
+  error: Error | unknown,
+  code: SiwpErrorCode,
+  message: string
+): SiwpError {
+  if (error instanceof SiwpError) {
+    return error;
+  }
+  return new SiwpError(code, message, { cause: error });
+}
+
+/**
+ * Converts an error thrown by `startAuthentication` or `startRegistration` to a
+ * `SiwpError`.
+ */
+export function toWebauthnError(error: Error | unknown): SiwpError {
+  const e = normalizeError(error);
+
+  // The browser reports both a cancelled prompt and a timeout as NotAllowedError.
+  if (
+    e.name === "NotAllowedError" ||
+    e.name === "AbortError" ||
+    (e instanceof WebAuthnError && e.code === "ERROR_CEREMONY_ABORTED")
+  ) {
+    return new SiwpError("WEBAUTHN_CANCELLED", "Webauthn cancelled", {
+      cause: error,
+    });
+  }
+
+  return new SiwpError("WEBAUTHN_FAILED", "Webauthn fail", { cause: error });
+}
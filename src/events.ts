@@ -0,0 +1,149 @@
+import type { Principal } from "@dfinity/principal";
+import type { SiwpError } from "./error";
+
+/**
+ * How a login was started: `login`, `loginWithAutofill` or `loginWithSessionKey`.
+ */
+export type LoginMethod = "passkey" | "autofill" | "session-key";
+
+/**
+ * The step of the login process that failed.
+ */
+export type LoginStep = "prepare" | "passkey" | "login" | "delegation";
+
+/**
+ * Why the user was logged out. `other-tab` means the identity was cleared in another tab.
+ */
+export type LogoutReason = "user" | "expired" | "idle" | "invalid" | "other-tab";
+
+export type SiwpEventMap = {
+  /** A login has started. */
+  loginStart: { uid?: string; method: LoginMethod };
+
+  /** The browser is about to show the passkey prompt. Not emitted for autofill logins, where
+   * the user picks the passkey from the autofill dropdown. */
+  passkeyPrompt: { uid?: string; ceremony: "authentication" | "registration" };
+
+  /** The login has completed. For session key logins, `principal` is the principal of the
+   * external session. */
+  loginSuccess: {
+    uid: string;
+    principal: Principal;
+    expiresAt: Date;
+    method: LoginMethod;
+  };
+
+  /** The login has failed. Aborted logins are not reported. */
+  loginError: {
+    uid?: string;
+    method: LoginMethod;
+    step: LoginStep;
+    error: SiwpError;
+  };
+
+  /** The user was logged out. */
+  logout: { uid?: string; principal?: Principal; reason: LogoutReason };
+
+  /** An identity was loaded from storage, on start, after switching accounts or after a
+   * login in another tab. */
+  sessionRestored: { uid: string; principal: Principal; expiresAt: Date };
+
+  /** The delegation of the identity expired. Followed by a `logout` event. */
+  sessionExpired: { uid?: string; expiresAt?: Date };
+
+  /** The IC rejected a call of the identity actor because of an invalid signature or
+   * delegation, for example after the delegation was revoked. Followed by a `logout`
+   * event. */
+  sessionInvalid: { uid?: string; principal: Principal; error: SiwpError };
+};
+
+export type SiwpEventName = keyof SiwpEventMap;
+
+export type SiwpEventListener<E extends SiwpEventName> = (
+  payload: SiwpEventMap[E]
+) => void;
+
+export type SiwpEventCallbacks = {
+  /** Called when a login starts. */
+  onLoginStart?: SiwpEventListener<"loginStart">;
+
+  /** Called right before the browser shows the passkey prompt. */
+  onPasskeyPrompt?: SiwpEventListener<"passkeyPrompt">;
+
+  /** Called when a login completes. */
+  onLoginSuccess?: SiwpEventListener<"loginSuccess">;
+
+  /** Called when a login fails, with the step that failed. */
+  onLoginError?: SiwpEventListener<"loginError">;
+
+  /** Called when the user is logged out, with the reason. */
+  onLogout?: SiwpEventListener<"logout">;
+
+  /** Called when an identity is loaded from storage. */
+  onSessionRestored?: SiwpEventListener<"sessionRestored">;
+
+  /** Called when the user is logged out because the delegation expired, either while the app
+   * is running or when a stored identity turns out to be expired on start. */
+  onSessionExpired?: SiwpEventListener<"sessionExpired">;
+
+  /** Called when the user is logged out because the IC rejected the delegation, for example
+   * to ask the user to log in again. */
+  onSessionInvalid?: SiwpEventListener<"sessionInvalid">;
+};
+
+/**
+ * The callback option for each event.
+ */
+export const EVENT_CALLBACKS: {
+  [E in SiwpEventName]: keyof SiwpEventCallbacks;
+} = {
+  loginStart: "onLoginStart",
+  passkeyPrompt: "onPasskeyPrompt",
+  loginSuccess: "onLoginSuccess",
+  loginError: "onLoginError",
+  logout: "onLogout",
+  sessionRestored: "onSessionRestored",
+  sessionExpired: "onSessionExpired",
+  sessionInvalid: "onSessionInvalid",
+};
+
+export type EventEmitter = {
+  /** Registers a listener for the event. Returns a function that removes the listener. */
+  on: <E extends SiwpEventName>(
+    event: E,
+    listener: SiwpEventListener<E>
+  ) => () => void;
+
+  /** Calls all listeners of the event. A throwing listener doesn't affect the others, its
+   * error is passed to `onListenerError`. */
+  emit: <E extends SiwpEventName>(event: E, payload: SiwpEventMap[E]) => void;
+};
+
+/**
+ * Creates an emitter for the SIWP lifecycle events.
+ */
+export function createEventEmitter(
+  onListenerError: (error: unknown) => void
+): EventEmitter {
+  const listeners = new Map<SiwpEventName, Set<(payload: never) => void>>();
+
+  return {
+    on: (event, listener) => {
+      const set = listeners.get(event) ?? new Set();
+      set.add(listener);
+      listeners.set(event, set);
+      return () => {
+        set.delete(listener);
+      };
+    },
+    emit: (event, payload) => {
+      listeners.get(event)?.forEach((listener) => {
+        try {
+          (listener as SiwpEventListener<typeof event>)(payload);
+        } catch (e) {
+          onListenerError(e);
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import type { IdentityContextType } from "./context.type";
+import type { UntypedService } from "./state.type";
+
+/**
+ * React context for managing SIWP (Sign-In with Passkey) identity.
+ */
+export const IdentityContext = createContext<IdentityContextType | undefined>(
+  undefined
+);
+
+/**
+ * Hook to access the IdentityContext. Pass the canister's service type to get a typed
+ * `identityActor`, e.g. `useIcIdentity<_SERVICE>()`.
+ */
+export const useIcIdentity = <
+  T extends UntypedService = UntypedService,
+>(): IdentityContextType<T> => {
+  const context = useContext(IdentityContext);
+  if (!context) {
+    throw new Error("useIcIdentity must be used within an IdentityProvider");
+  }
+  return context as IdentityContextType<T>;
+};
@@ -0,0 +1,169 @@
+import type {
+  IdentityStorage,
+  SessionKeyStore,
+  SiweAccountsStorage,
+} from "./storage.type";
+
+const IDB_DEFAULT_DATABASE = "siwp-identity";
+const IDB_DEFAULT_STORE = "identities";
+const IDB_KEYS_DATABASE = "siwp-session-keys";
+const IDB_KEYS_STORE = "keys";
+
+/**
+ * Wraps a web storage. The storage is only looked up when used, and behaves as empty where
+ * it doesn't exist, such as during server-side rendering.
+ */
+function createWebStorage(
+  getStorage: () => Storage | undefined
+): IdentityStorage {
+  return {
+    async get(key) {
+      const storedState = getStorage()?.getItem(key);
+      if (!storedState) return undefined;
+      try {
+        return JSON.parse(storedState) as SiweAccountsStorage;
+      } catch {
+        // Returned as is, so that the unreadable value is quarantined and not lost.
+        return storedState as unknown as SiweAccountsStorage;
+      }
+    },
+    async set(key, value) {
+      getStorage()?.setItem(key, JSON.stringify(value));
+    },
+    async remove(key) {
+      getStorage()?.removeItem(key);
+    },
+  };
+}
+
+/**
+ * Stores the identity in `localStorage`. The session survives browser restarts until
+ * the delegation expires or the user logs out. This is the default storage.
+ */
+export function createLocalStorage(): IdentityStorage {
+  return createWebStorage(() =>
+    typeof localStorage === "undefined" ? undefined : localStorage
+  );
+}
+
+/**
+ * Stores the identity in `sessionStorage`. The session is scoped to the browser tab
+ * and is gone when the tab is closed.
+ */
+export function createSessionStorage(): IdentityStorage {
+  return createWebStorage(() =>
+    typeof sessionStorage === "undefined" ? undefined : sessionStorage
+  );
+}
+
+/**
+ * Keeps the identity in memory only. The session is lost on page reload.
+ */
+export function createMemoryStorage(): IdentityStorage {
+  const entries = new Map<string, SiweAccountsStorage>();
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, value) {
+      entries.set(key, value);
+    },
+    async remove(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wraps an IndexedDB object store. Values are stored as structured clones, which keeps
+ * non-extractable `CryptoKey`s intact.
+ */
+function createObjectStore<T>(databaseName: string, storeName: string) {
+  let db: Promise<IDBDatabase> | undefined;
+
+  function openDatabase() {
+    if (!db) {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      db = requestToPromise(request);
+    }
+    return db;
+  }
+
+  async function transaction(mode: IDBTransactionMode) {
+    return (await openDatabase())
+      .transaction(storeName, mode)
+      .objectStore(storeName);
+  }
+
+  return {
+    async get(key: string) {
+      const store = await transaction("readonly");
+      const value = await requestToPromise(store.get(key));
+      return value as T | undefined;
+    },
+    async set(key: string, value: T) {
+      const store = await transaction("readwrite");
+      await requestToPromise(store.put(value, key));
+    },
+    async remove(key: string) {
+      const store = await transaction("readwrite");
+      await requestToPromise(store.delete(key));
+    },
+  };
+}
+
+/**
+ * Stores the identity in IndexedDB. Like `localStorage`, the session survives browser
+ * restarts, but the storage is not limited to string values.
+ */
+export function createIndexedDBStorage({
+  databaseName = IDB_DEFAULT_DATABASE,
+  storeName = IDB_DEFAULT_STORE,
+}: {
+  databaseName?: string;
+  storeName?: string;
+} = {}): IdentityStorage {
+  return createObjectStore<SiweAccountsStorage>(databaseName, storeName);
+}
+
+/**
+ * Stores non-extractable ECDSA session key pairs in IndexedDB. The keys can be used to
+ * sign, but scripts can't read the private key. This is the default key store.
+ */
+export function createIndexedDBKeyStore({
+  databaseName = IDB_KEYS_DATABASE,
+  storeName = IDB_KEYS_STORE,
+}: {
+  databaseName?: string;
+  storeName?: string;
+} = {}): SessionKeyStore {
+  return createObjectStore<CryptoKeyPair>(databaseName, storeName);
+}
+
+/**
+ * Keeps session key pairs in memory only. Use it together with `createMemoryStorage`.
+ */
+export function createMemoryKeyStore(): SessionKeyStore {
+  const entries = new Map<string, CryptoKeyPair>();
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, value) {
+      entries.set(key, value);
+    },
+    async remove(key) {
+      entries.delete(key);
+    },
+  };
+}
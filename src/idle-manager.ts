@@ -0,0 +1,127 @@
+// Local activity is reported to `onActivity` at most once per interval (in ms).
+const ACTIVITY_REPORT_INTERVAL = 1000;
+
+const DEFAULT_IDLE_EVENTS = [
+  "mousedown",
+  "mousemove",
+  "keydown",
+  "touchstart",
+  "wheel",
+  "scroll",
+];
+
+export type IdleOptions = {
+  /** Time of inactivity (in ms) after which the user is considered idle. */
+  idleTimeout: number;
+
+  /** Length (in ms) of the warning window before the idle timeout. While the warning is
+   * shown, user activity no longer resets the timer, only `extendSession` does. */
+  warningTime?: number;
+
+  /** DOM events on `window` that count as user activity. Defaults to mouse, keyboard,
+   * touch, wheel and scroll events. */
+  events?: string[];
+
+  /** Called when the warning window starts. */
+  onWarning?: () => void;
+
+  /** Called when the user is idle. */
+  onIdle?: () => void;
+
+  /** If true, the user is not logged out when idle, only `onIdle` is called. */
+  disableDefaultIdleCallback?: boolean;
+};
+
+export type IdleManager = {
+  /** Restarts the idle timer, also ending a running warning window. */
+  reset: () => void;
+
+  /** Counts as user activity, for example activity reported by another tab. Ignored during
+   * the warning window. */
+  activity: () => void;
+
+  /** Removes all event listeners and timers. */
+  stop: () => void;
+};
+
+/**
+ * Watches user activity and calls `onIdle` after `idleTimeout` ms without activity.
+ * Optionally calls `onWarning` `warningTime` ms before that. Activity in this window is
+ * reported to `onActivity`, throttled, so that it can be shared with other tabs.
+ */
+export function createIdleManager({
+  idleTimeout,
+  warningTime = 0,
+  events = DEFAULT_IDLE_EVENTS,
+  onWarning,
+  onIdle,
+  onActivity,
+}: {
+  idleTimeout: number;
+  warningTime?: number;
+  events?: string[];
+  onWarning: () => void;
+  onIdle: () => void;
+  onActivity?: () => void;
+}): IdleManager {
+  let warningTimeout: ReturnType<typeof setTimeout> | undefined;
+  let idleTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  let isWarning = false;
+  let lastReported = 0;
+
+  function clearTimers() {
+    clearTimeout(warningTimeout);
+    clearTimeout(idleTimeoutId);
+  }
+
+  function reset() {
+    clearTimers();
+    isWarning = false;
+
+    if (warningTime > 0) {
+      warningTimeout = setTimeout(() => {
+        isWarning = true;
+        onWarning();
+      }, Math.max(idleTimeout - warningTime, 0));
+    }
+
+    idleTimeoutId = setTimeout(() => {
+      // The next user activity starts a new idle period.
+      isWarning = false;
+      onIdle();
+    }, idleTimeout);
+  }
+
+  function activity() {
+    if (isWarning) return;
+    reset();
+  }
+
+  function onLocalActivity() {
+    if (isWarning) return;
+    reset();
+
+    const now = Date.now();
+    if (now - lastReported >= ACTIVITY_REPORT_INTERVAL) {
+      lastReported = now;
+      onActivity?.();
+    }
+  }
+
+  function stop() {
+    clearTimers();
+    events.forEach((name) =>
+      window.removeEventListener(name, onLocalActivity, true)
+    );
+  }
+
+  events.forEach((name) =>
+    window.addEventListener(name, onLocalActivity, {
+      capture: true,
+      passive: true,
+    })
+  );
+  reset();
+
+  return { reset, activity, stop };
+}
@@ -1,38 +1,16 @@
 /* eslint-disable react-refresh/only-export-components */
 import {
-  createContext,
-  useContext,
   type ReactNode,
   useEffect,
   useState,
-  useRef,
+  useSyncExternalStore,
 } from "react";
+import type { UntypedService } from "./state.type";
+import { IdentityContext } from "./identity-context";
 import {
-  type ActorConfig,
-  type HttpAgentOptions,
-  type DerEncodedPublicKey,
-} from "@dfinity/agent";
-import { DelegationIdentity, Ed25519KeyIdentity } from "@dfinity/identity";
-import type {
-  IdentityContextType,
-  IdentityLoginResponse,
-} from "./context.type";
-import { IDL } from "@dfinity/candid";
-import type {
-  PublicKey,
-  BindingDelegationDeatils,
-  SignedDelegation as ServiceSignedDelegation,
-} from "./service.interface";
-import { clearIdentity, loadIdentity, saveIdentity } from "./local-storage";
-import {
-  callGetDelegation,
-  callLogin,
-  createAnonymousActor,
-  callPrepareLogin,
-} from "./siwp-provider";
-import type { State, AnonymousActor } from "./state.type";
-import { createDelegationChain } from "./delegation";
-import { normalizeError } from "./error";
+  SiwpIdentityClient,
+  type SiwpIdentityClientOptions,
+} from "./siwp-identity-client";
 
 /**
  * Re-export types
@@ -41,43 +19,66 @@ export * from "./context.type";
 export * from "./service.interface";
 export * from "./storage.type";
 export * from "./local-storage";
+export { SIWP_STORAGE_VERSION } from "./storage-schema";
+export * from "./identity-storage";
 export * from "./delegation";
+export * from "./verify-delegation";
+export * from "./delegation-handoff";
+export * from "./capabilities";
+export { readSessionHint, SESSION_HINT_COOKIE } from "./session-hint";
+export { isAuthenticationError } from "./session-guard";
+export { isRetryableError, type RetryOptions } from "./retry";
+export { redactSecrets, type Logger, type LogLevel } from "./logger";
 export * from "./state.type";
-/**
- * React context for managing SIWP (Sign-In with Passkey) identity.
- */
-export const IdentityContext = createContext<IdentityContextType | undefined>(
-  undefined
-);
-
-/**
- * Hook to access the IdentityContext.
- */
-export const useIcIdentity = (): IdentityContextType => {
-  const context = useContext(IdentityContext);
-  if (!context) {
-    throw new Error("useIcIdentity must be used within an IdentityProvider");
-  }
-  return context;
-};
+export * from "./siwp-identity-client";
+export * from "./error";
+export type { IdleOptions } from "./idle-manager";
+export type { EncryptedData } from "./session-encryption";
+export type * from "./events";
+export { IdentityContext, useIcIdentity } from "./identity-context";
+export * from "./components";
 
 /**
  * Provider component for the SIWP identity context. Manages identity state and provides authentication-related functionalities.
+ * The state and login process are owned by a `SiwpIdentityClient`, which can also be used without React.
+ * Safe to render on the server: the identity is loaded after hydration, until then `authStatus` is `unknown`.
  *
  * @prop {IDL.InterfaceFactory} idlFactory - Required. The Interface Description Language (IDL) factory for the canister. This factory is used to create an actor interface for the canister.
  * @prop {string} canisterId - Required. The unique identifier of the canister on the Internet Computer network. This ID is used to establish a connection to the canister.
  * @prop {HttpAgentOptions} httpAgentOptions - Optional. Configuration options for the HTTP agent used to communicate with the Internet Computer network.
  * @prop {ActorConfig} actorOptions - Optional. Configuration options for the actor. These options are passed to the actor upon its creation.
+ * @prop {Array<Principal | string>} targets - Optional. Restricts the delegation to these canisters.
+ * @prop {RetryOptions} retry - Optional. Retries backend calls that fail with a transient error. Defaults to 3 retries with exponential backoff.
+ * @prop {boolean} verifyCanisterSignature - Optional. Also verifies the certificate of the delegation signature against the IC root key.
+ * @prop {IdentityStorage} storage - Optional. Where the identity is persisted between page loads. Defaults to `localStorage`.
+ * @prop {string} storageKey - Optional. The key the identities are stored under. Defaults to `siwp-identity/<canisterId>`.
+ * @prop {SessionKeyType} sessionKeyType - Optional. `ECDSA` uses non-extractable WebCrypto session keys kept in IndexedDB. Defaults to `Ed25519`.
+ * @prop {SessionKeyStore} sessionKeyStore - Optional. Where ECDSA session key pairs are kept. Defaults to IndexedDB.
+ * @prop {boolean} encryptSession - Optional. Encrypts the stored session with the passkey's PRF output. Locked sessions are opened with `unlock`.
+ * @prop {Function} onLoginStart - Optional. Called when a login starts.
+ * @prop {Function} onPasskeyPrompt - Optional. Called right before the browser shows the passkey prompt.
+ * @prop {Function} onLoginSuccess - Optional. Called when a login completes, with the uid and principal.
+ * @prop {Function} onLoginError - Optional. Called when a login fails, with the error and the step that failed.
+ * @prop {Function} onLogout - Optional. Called when the user is logged out, with the reason.
+ * @prop {Function} onSessionRestored - Optional. Called when an identity is loaded from storage.
+ * @prop {Function} onSessionExpired - Optional. Called when the user is logged out because the delegation expired.
+ * @prop {Function} onSessionInvalid - Optional. Called when the user is logged out because the IC rejected the delegation.
+ * @prop {boolean} sessionHint - Optional. Whether the user is logged in according to the session hint cookie, read on the server with `readSessionHint` from `use-ic-siwp-identity/server`.
+ * @prop {boolean | string} sessionHintCookie - Optional. Maintains the session hint cookie, optionally with a custom name.
+ * @prop {Logger} logger - Optional. Receives the diagnostics of the provider. Defaults to `console`.
+ * @prop {LogLevel} logLevel - Optional. The lowest level passed to the logger. Defaults to `warn`.
+ * @prop {boolean} logSecrets - Optional. Logs session keys and other secrets unredacted. Only for debugging.
+ * @prop {IdleOptions} idleOptions - Optional. Logs the user out after a period of inactivity in all tabs.
  * @prop {ReactNode} children - Required. The child components that the IdentityProvider will wrap. This allows any child component to access the authentication context provided by the IdentityProvider.
  *
  * @example
  * ```tsx
  * import { IdentityProvider } from 'useIcIdentity';
- * import {canisterId, idlFactory} from "path-to/siwp-enabled-canister/index";
+ * import {canisterId, idlFactory, type _SERVICE} from "path-to/siwp-enabled-canister/index";
  *
  * function App() {
  *   return (
- *     <IdentityProvider
+ *     <IdentityProvider<_SERVICE>
  *       idlFactory={idlFactory}
  *       canisterId={canisterId}
  *       // ...other props
@@ -89,473 +90,36 @@ export const useIcIdentity = (): IdentityContextType => {
  *
  *```
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function IdentityProvider({
-  httpAgentOptions,
-  actorOptions,
-  idlFactory,
-  canisterId,
-  isLocalNetwork,
-  expiration,
+export function IdentityProvider<T extends UntypedService = UntypedService>({
   children,
-}: {
-  /** Configuration options for the HTTP agent used to communicate with the Internet Computer network. */
-  httpAgentOptions?: HttpAgentOptions;
-
-  /** Configuration options for the actor. These options are passed to the actor upon its creation. */
-  actorOptions?: ActorConfig;
-
-  /** The Interface Description Language (IDL) factory for the canister. This factory is used to create an actor interface for the canister. */
-  idlFactory: IDL.InterfaceFactory;
-
-  /** The unique identifier of the canister on the Internet Computer network. This ID is used to establish a connection to the canister. */
-  canisterId: string;
-
-  /**
-   * If true, the provider will use the local network instead of the main network.
-   * This is useful for testing purposes.
-   */
-  isLocalNetwork?: boolean;
-
-  /** Set the idle time (in ms) before the session key expires. **/
-  expiration?: number;
-
+  ...options
+}: SiwpIdentityClientOptions & {
   /** The child components that the IdentityProvider will wrap. This allows any child component to access the authentication context provided by the IdentityProvider. */
   children: ReactNode;
 }) {
-  const [state, setState] = useState<State>({
-    isInitializing: true,
-    prepareLoginStatus: "idle",
-    loginStatus: "idle",
-  });
-
-  function updateState(newState: Partial<State>) {
-    setState((prevState) => ({ ...prevState, ...newState }));
-    // state = { ...state, ...newState };
-  }
-
-  // Keep track of the promise handlers for the login method during the async login process.
-  const loginPromiseHandlers = useRef<{
-    resolve: (
-      value: IdentityLoginResponse | PromiseLike<IdentityLoginResponse>
-    ) => void;
-    reject: (error: Error) => void;
-  } | null>(null);
-
-  // Keep track of the promise handlers for the login method during the async login process.
-  const loginWithPublicKeyPromiseHandlers = useRef<{
-    resolve: (
-      value: BindingDelegationDeatils | PromiseLike<BindingDelegationDeatils>
-    ) => void;
-    reject: (error: Error) => void;
-  } | null>(null);
-
-  async function rejectLoginWithError(
-    error: Error | unknown,
-    message?: string
-  ) {
-    const e = normalizeError(error);
-    const errorMessage = message || e.message;
-
-    console.error(e);
-
-    updateState({
-      loginStatus: "error",
-      loginError: new Error(errorMessage),
-    });
-
-    loginPromiseHandlers.current?.reject(new Error(errorMessage));
-  }
-
-  /**
-   * This function is called when the webauthn hook has settled, that is, when the
-   * user has auth the challenge or canceled the signing process.
-   */
-  async function onWebauthnSettled(
-    anonymousActor: AnonymousActor,
-    webauthnResponse: string,
-    authenticationState?: string,
-    username?: string,
-    customSessionPublicKey?: DerEncodedPublicKey
-  ) {
-    if (!anonymousActor) {
-      rejectLoginWithError(new Error("Invalid actor or address."));
-      return;
-    }
-
-    let loginOkResponse: BindingDelegationDeatils;
-
-    if (customSessionPublicKey) {
-      try {
-        loginOkResponse = await callLogin(
-          anonymousActor,
-          webauthnResponse,
-          customSessionPublicKey,
-          authenticationState,
-          username,
-          expiration
-        );
-      } catch (e) {
-        console.warn(e, customSessionPublicKey);
-        rejectLoginWithError(e, "Login error with customSessionPublicKey.");
-        return;
-      }
-
-      loginWithPublicKeyPromiseHandlers?.current?.resolve(loginOkResponse);
-    } else {
-      // Important for security! A random session identity is created on each login.
-      const sessionIdentity = Ed25519KeyIdentity.generate();
-      const sessionPublicKey = sessionIdentity.getPublicKey().toDer();
-
-      // Logging in is a two-step process. First, the signed SIWP message is sent to the backend.
-      // Then, the backend's siwp_get_delegation method is called to get the delegation.
-
-      try {
-        loginOkResponse = await callLogin(
-          anonymousActor,
-          webauthnResponse,
-          sessionPublicKey,
-          authenticationState,
-          username,
-          expiration
-        );
-      } catch (e) {
-        rejectLoginWithError(e, "Unable to login.");
-        return;
-      }
-
-      console.warn("debug loginOkResponse", loginOkResponse);
-      const response = await getDelegation(
-        loginOkResponse.username,
-        sessionPublicKey,
-        sessionIdentity,
-        loginOkResponse.login_details.expiration,
-        loginOkResponse.login_details.user_canister_pubkey
-      ).catch((e) => {
-        rejectLoginWithError(e);
-        return;
-      });
-
-      response && loginPromiseHandlers?.current?.resolve(response);
-    }
-  }
+  const [client] = useState(() => new SiwpIdentityClient<T>(options));
 
   /**
-   * Call the backend's siwp_get_delegation method to get the delegation.
-   */
-  async function getDelegation(
-    identityId: string,
-    sessionPublicKey: DerEncodedPublicKey,
-    sessionIdentity: Ed25519KeyIdentity,
-    expiration: bigint,
-    user_canister_pubkey: PublicKey
-  ) {
-    if (!state.anonymousActor) {
-      throw new Error(
-        "Hook not initialized properly. Make sure to supply all required props to the IdentityProvider."
-      );
-    }
-
-    // Logging in is a two-step process. First, the signed SIWP message is sent to the backend.
-    // Then, the backend's siwp_get_delegation method is called to get the delegation.
-
-    // Call the backend's siwp_get_delegation method to get the delegation.
-    let signedDelegation: ServiceSignedDelegation;
-    try {
-      signedDelegation = await callGetDelegation(
-        state.anonymousActor,
-        identityId,
-        sessionPublicKey,
-        expiration
-      );
-    } catch (e) {
-      throw new Error("Unable to get identity.");
-    }
-
-    // Create a new delegation chain from the delegation.
-    const delegationChain = createDelegationChain(
-      signedDelegation,
-      user_canister_pubkey
-    );
-
-    // Create a new delegation identity from the session identity and the
-    // delegation chain.
-    const identity = DelegationIdentity.fromDelegation(
-      sessionIdentity,
-      delegationChain
-    );
-
-    // Save the identity to local storage.
-    saveIdentity(identityId, sessionIdentity, delegationChain);
-
-    // Set the identity in state.
-    updateState?.({
-      loginStatus: "success",
-      identityId,
-      identity,
-      delegationChain,
-      identityActor: createAnonymousActor({
-        idlFactory,
-        canisterId,
-        httpAgentOptions: { ...(httpAgentOptions || {}), identity },
-        actorOptions,
-        isLocalNetwork,
-      }),
-    });
-
-    return {
-      identity,
-      username: identityId,
-    };
-  }
-
-  /**
-   * Initiates the login process.
-   *
-   * @returns {void} Login does not return anything. If an error occurs, the error is available in
-   * the loginError property.
-   */
-
-  async function login(loginUid?: string) {
-    const promise = new Promise<IdentityLoginResponse>((resolve, reject) => {
-      loginPromiseHandlers.current = { resolve, reject };
-    });
-    // Set the promise handlers immediately to ensure they are available for error handling.
-
-    if (!state.anonymousActor) {
-      rejectLoginWithError(
-        new Error(
-          "Hook not initialized properly. Make sure to supply all required props to the IdentityProvider."
-        )
-      );
-      return promise;
-    }
-
-    if (state.prepareLoginStatus === "preparing") {
-      rejectLoginWithError(
-        new Error("Don't call login while prepareLogin is running.")
-      );
-      return promise;
-    }
-
-    updateState({
-      loginStatus: "logging-in",
-      loginError: undefined,
-    });
-
-    updateState({
-      prepareLoginStatus: "preparing",
-      prepareLoginError: undefined,
-    });
-
-    let webauthnResponse: string = "";
-    let authenticationState: string = "";
-
-    try {
-      const _prepareLoginResponse = await callPrepareLogin(
-        state.anonymousActor,
-        loginUid
-      );
-
-      if (loginUid && typeof _prepareLoginResponse === "string") {
-        webauthnResponse = _prepareLoginResponse;
-
-        updateState({
-          prepareLoginStatus: "success",
-        });
-      } else if (
-        Array.isArray(_prepareLoginResponse) &&
-        _prepareLoginResponse[0] &&
-        _prepareLoginResponse[1]
-      ) {
-        webauthnResponse = _prepareLoginResponse[0];
-        authenticationState = _prepareLoginResponse[1];
-
-        updateState({
-          prepareLoginStatus: "success",
-        });
-      } else {
-        throw new Error("Invalid authentication response");
-      }
-    } catch (e) {
-      const error = normalizeError(e);
-      console.error(error);
-      updateState({
-        prepareLoginStatus: "error",
-        prepareLoginError: error,
-      });
-
-      rejectLoginWithError(error || new Error("Unable to login."));
-      return promise;
-    }
-
-    await onWebauthnSettled(
-      state.anonymousActor,
-      webauthnResponse,
-      authenticationState,
-      loginUid
-    );
-
-    return promise;
-  }
-
-  /**
-   * Initiates the loginWithSessionKey process.
-   *
-   * @returns {void} Login does not return anything. If an error occurs, the error is available in
-   * the loginError property.
-   */
-
-  async function loginWithSessionKey(
-    sessionPublicKey: DerEncodedPublicKey,
-    loginUid?: string
-  ) {
-    const promise = new Promise<BindingDelegationDeatils>((resolve, reject) => {
-      loginWithPublicKeyPromiseHandlers.current = { resolve, reject };
-    });
-    // Set the promise handlers immediately to ensure they are available for error handling.
-
-    if (!state.anonymousActor) {
-      rejectLoginWithError(
-        new Error(
-          "Hook not initialized properly. Make sure to supply all required props to the IdentityProvider."
-        )
-      );
-      return promise;
-    }
-
-    if (state.prepareLoginStatus === "preparing") {
-      rejectLoginWithError(
-        new Error("Don't call login while prepareLogin is running.")
-      );
-      return promise;
-    }
-
-    updateState({
-      loginStatus: "logging-in",
-      loginError: undefined,
-    });
-
-    updateState({
-      prepareLoginStatus: "preparing",
-      prepareLoginError: undefined,
-    });
-
-    let webauthnResponse: string = "";
-    let authenticationState: string = "";
-
-    try {
-      const _prepareLoginResponse = await callPrepareLogin(
-        state.anonymousActor,
-        loginUid
-      );
-
-      if (loginUid && typeof _prepareLoginResponse === "string") {
-        webauthnResponse = _prepareLoginResponse;
-
-        updateState({
-          prepareLoginStatus: "success",
-        });
-      } else if (
-        Array.isArray(_prepareLoginResponse) &&
-        _prepareLoginResponse[0] &&
-        _prepareLoginResponse[1]
-      ) {
-        webauthnResponse = _prepareLoginResponse[0];
-        authenticationState = _prepareLoginResponse[1];
-
-        updateState({
-          prepareLoginStatus: "success",
-        });
-      } else {
-        throw new Error("Invalid authentication response");
-      }
-    } catch (e) {
-      const error = normalizeError(e);
-      console.error(error);
-      updateState({
-        prepareLoginStatus: "error",
-        prepareLoginError: error,
-      });
-
-      rejectLoginWithError(error || new Error("Unable to login."));
-      return promise;
-    }
-
-    await onWebauthnSettled(
-      state.anonymousActor,
-      webauthnResponse,
-      authenticationState,
-      loginUid,
-      sessionPublicKey
-    );
-
-    return promise;
-  }
-
-  /**
-   * Clears the state and local storage. Effectively "logs the user out".
-   */
-  function clear() {
-    updateState({
-      isInitializing: false,
-      prepareLoginStatus: "idle",
-      prepareLoginError: undefined,
-      loginStatus: "idle",
-      loginError: undefined,
-      identity: undefined,
-      identityId: undefined,
-      delegationChain: undefined,
-      identityActor: undefined,
-    });
-    clearIdentity();
-  }
-
-  /**
-   * Load the identity from local storage on mount.
+   * Pass the latest props to the client. Actors are only recreated when the props they
+   * depend on change.
    */
   useEffect(() => {
-    try {
-      const [a, i, d] = loadIdentity();
-      updateState({
-        identityId: a,
-        identity: i,
-        delegationChain: d,
-        isInitializing: false,
-        identityActor: createAnonymousActor({
-          idlFactory,
-          canisterId,
-          httpAgentOptions: { ...(httpAgentOptions || {}), identity: i },
-          actorOptions,
-          isLocalNetwork,
-        }),
-      });
-    } catch (e) {
-      if (e instanceof Error) {
-        console.log("Could not load identity from local storage: ", e.message);
-      }
-      updateState({
-        isInitializing: false,
-      });
-    }
-  }, []);
+    client.setOptions(options);
+  });
 
   /**
-   * Create an anonymous actor on mount. This actor is used during the login
-   * process.
+   * Load the identity from storage on mount and release timers and listeners on unmount.
    */
   useEffect(() => {
-    const a = createAnonymousActor({
-      idlFactory,
-      canisterId,
-      httpAgentOptions,
-      actorOptions,
-      isLocalNetwork,
-    });
-    updateState({
-      anonymousActor: a,
-    });
-  }, [idlFactory, canisterId, httpAgentOptions, actorOptions, isLocalNetwork]);
+    client.start();
+    return () => client.stop();
+  }, [client]);
+
+  const state = useSyncExternalStore(
+    client.subscribe,
+    client.getSnapshot,
+    client.getServerSnapshot
+  );
 
   return (
     <IdentityContext.Provider
@@ -565,14 +129,26 @@ export function IdentityProvider({
         isPrepareLoginError: state.prepareLoginStatus === "error",
         isPrepareLoginSuccess: state.prepareLoginStatus === "success",
         isPrepareLoginIdle: state.prepareLoginStatus === "idle",
-        login,
-        loginWithSessionKey,
-        getDelegation,
+        login: client.login,
+        loginWithAutofill: client.loginWithAutofill,
+        loginWithSessionKey: client.loginWithSessionKey,
+        getDelegation: client.getDelegation,
         isLoggingIn: state.loginStatus === "logging-in",
         isLoginError: state.loginStatus === "error",
         isLoginSuccess: state.loginStatus === "success",
         isLoginIdle: state.loginStatus === "idle",
-        clear,
+        extendSession: client.extendSession,
+        unlock: client.unlock,
+        reauthenticate: client.reauthenticate,
+        register: client.register,
+        isRegistering: state.registerStatus === "registering",
+        isRegisterError: state.registerStatus === "error",
+        isRegisterSuccess: state.registerStatus === "success",
+        isRegisterIdle: state.registerStatus === "idle",
+        switchAccount: client.switchAccount,
+        removeAccount: client.removeAccount,
+        clear: client.clear,
+        on: client.on,
       }}
     >
       {children}
@@ -1,58 +1,472 @@
 import {
   DelegationChain,
   DelegationIdentity,
+  ECDSAKeyIdentity,
   Ed25519KeyIdentity,
+  type JsonnableDelegationChain,
 } from "@dfinity/identity";
+import { Principal } from "@dfinity/principal";
 
-import type { SiweIdentityStorage } from "./storage.type";
+import type {
+  EncryptedSessionStorage,
+  IdentityAccount,
+  IdentityStorage,
+  SessionIdentity,
+  SessionKeyStore,
+  SiweAccountsStorage,
+  SiweIdentityStorage,
+} from "./storage.type";
+import {
+  createIndexedDBKeyStore,
+  createLocalStorage,
+} from "./identity-storage";
+import { getDelegationChainExpiration } from "./delegation";
+import { getDelegationChainCanisterId } from "./verify-delegation";
+import { SiwpError } from "./error";
+import {
+  decryptJSON,
+  encryptJSON,
+  type SessionEncryption,
+} from "./session-encryption";
+import {
+  SIWP_STORAGE_VERSION,
+  upgradeAccounts,
+  validateIdentity,
+  withQuarantined,
+} from "./storage-schema";
 
+/**
+ * The default storage key. Providers store their identities under
+ * `siwp-identity/<canisterId>` unless configured otherwise.
+ */
 export const SIWP_STORAGE_KEY = "siwp-identity";
 
+const defaultStorage = createLocalStorage();
+
+const defaultKeyStore = createIndexedDBKeyStore();
+
 /**
- * Loads the SIWP identity from local storage.
+ * The key under which the ECDSA session key pair of the uid is stored.
  */
-export function loadIdentity() {
-  const storedState = localStorage.getItem(SIWP_STORAGE_KEY);
+function sessionKeyId(key: string, uid: string) {
+  return `${key}/${uid}`;
+}
+
+function storedKeyId(accounts: SiweIdentityStorage[], uid: string) {
+  return accounts.find((account) => account.uid === uid)?.keyId;
+}
+
+/**
+ * Rehydrates the session key of a stored identity. ECDSA identities need the key pair
+ * loaded from the key store.
+ */
+async function loadSessionIdentity(
+  s: SiweIdentityStorage,
+  keyPair: CryptoKeyPair | undefined
+): Promise<SessionIdentity> {
+  if (s.keyType === "ECDSA") {
+    if (!keyPair) {
+      throw new Error("Session key pair not found.");
+    }
+    return ECDSAKeyIdentity.fromKeyPair(keyPair);
+  }
 
-  if (!storedState) {
-    throw new Error("No stored identity found.");
+  if (!s.sessionIdentity) {
+    throw new Error("Session key not found.");
   }
+  return Ed25519KeyIdentity.fromParsedJson(s.sessionIdentity);
+}
+
+/**
+ * Like `readAccounts`, but also returns the entries quarantined while reading.
+ */
+async function upgradeStoredAccounts(storage: IdentityStorage, key: string) {
+  const upgraded = upgradeAccounts(await storage.get(key));
+  if (upgraded.changed) {
+    await writeAccounts(storage, key, upgraded.s);
+  }
+  return upgraded;
+}
+
+/**
+ * Reads all stored accounts, migrated to the current schema. Entries that can't be read
+ * are quarantined.
+ */
+async function readAccounts(
+  storage: IdentityStorage,
+  key: string
+): Promise<SiweAccountsStorage> {
+  return (await upgradeStoredAccounts(storage, key)).s;
+}
 
-  const s: SiweIdentityStorage = JSON.parse(storedState);
-  if (!s.uid || !s.sessionIdentity || !s.delegationChain) {
-    throw new Error("Stored state is invalid.");
+async function writeAccounts(
+  storage: IdentityStorage,
+  key: string,
+  s: SiweAccountsStorage
+) {
+  if (s.accounts.length === 0 && !s.quarantined?.length) {
+    await storage.remove(key);
+    return;
   }
+  await storage.set(key, { ...s, version: SIWP_STORAGE_VERSION });
+}
 
-  const d = DelegationChain.fromJSON(JSON.stringify(s.delegationChain));
-  const i = DelegationIdentity.fromDelegation(
-    Ed25519KeyIdentity.fromJSON(JSON.stringify(s.sessionIdentity)),
-    d
+/**
+ * Removes the stored state once its last account is gone, including the quarantine and the
+ * session key pairs of quarantined identities. Quarantined entries are never loaded, keeping
+ * them would only leave old session keys behind.
+ */
+async function removeAccounts(
+  storage: IdentityStorage,
+  keyStore: SessionKeyStore,
+  key: string,
+  s: SiweAccountsStorage
+) {
+  for (const { entry } of s.quarantined ?? []) {
+    const keyId = (entry as Partial<SiweIdentityStorage> | undefined)?.keyId;
+    if (typeof keyId === "string") {
+      await keyStore.remove(keyId);
+    }
+  }
+  await storage.remove(key);
+}
+
+/**
+ * Moves a stored identity that turned out to be unreadable to the quarantine.
+ */
+async function quarantineIdentity(
+  storage: IdentityStorage,
+  key: string,
+  entry: SiweIdentityStorage,
+  reason: string
+) {
+  const s = await readAccounts(storage, key);
+  await writeAccounts(
+    storage,
+    key,
+    withQuarantined(
+      {
+        ...s,
+        activeUid: s.activeUid === entry.uid ? undefined : s.activeUid,
+        accounts: s.accounts.filter((account) => account.uid !== entry.uid),
+      },
+      { entry, reason, quarantinedAt: Date.now() }
+    )
   );
+}
+
+/**
+ * Decrypts an encrypted session into a regular stored identity.
+ */
+async function decryptIdentity(
+  s: SiweIdentityStorage,
+  encryptionKey: CryptoKey | undefined
+): Promise<SiweIdentityStorage> {
+  if (!s.encrypted) return s;
 
-  return [s.uid, i, d] as const;
+  if (!encryptionKey) {
+    throw new SiwpError(
+      "SESSION_LOCKED",
+      "The stored session is encrypted, unlock it with the passkey."
+    );
+  }
+
+  try {
+    const decrypted = await decryptJSON<
+      Pick<SiweIdentityStorage, "sessionIdentity" | "delegationChain">
+    >(encryptionKey, s.encrypted);
+    return { uid: s.uid, keyType: s.keyType, keyId: s.keyId, ...decrypted };
+  } catch (e) {
+    throw new SiwpError(
+      "UNLOCK_FAILED",
+      "The stored session could not be decrypted.",
+      { cause: e }
+    );
+  }
 }
 
 /**
- * Saves the SIWP identity to local storage.
+ * Whether the stored identity was issued by the canister. Encrypted identities can't tell
+ * without unlocking them.
  */
-export function saveIdentity(
-  uid: string,
-  sessionIdentity: Ed25519KeyIdentity,
+function isIssuedBy(s: SiweIdentityStorage, canisterId: string) {
+  if (!s.delegationChain) return false;
+  return (
+    getDelegationChainCanisterId(
+      DelegationChain.fromJSON(s.delegationChain)
+    )?.toText() === canisterId
+  );
+}
+
+/**
+ * Moves the identities issued by the canister from the un-namespaced default key, where
+ * versions before storage keys were namespaced stored them, to the key. Identities of other
+ * canisters and encrypted identities are left in place.
+ */
+export async function adoptLegacyIdentities(
+  canisterId: string,
+  storage: IdentityStorage = defaultStorage,
+  keyStore: SessionKeyStore = defaultKeyStore,
+  key = SIWP_STORAGE_KEY
+) {
+  if (key === SIWP_STORAGE_KEY) return;
+
+  const stored = await storage.get(SIWP_STORAGE_KEY);
+  if (stored === undefined) return;
+
+  const legacy = upgradeAccounts(stored).s;
+  const adopted = legacy.accounts.filter((a) => isIssuedBy(a, canisterId));
+  if (adopted.length === 0) return;
+
+  const s = await readAccounts(storage, key);
+  const uids = new Set(s.accounts.map((account) => account.uid));
+  await writeAccounts(storage, key, {
+    ...s,
+    activeUid:
+      s.activeUid ??
+      (adopted.some((a) => a.uid === legacy.activeUid)
+        ? legacy.activeUid
+        : undefined),
+    accounts: [...s.accounts, ...adopted.filter((a) => !uids.has(a.uid))],
+  });
+
+  const accounts = legacy.accounts.filter((a) => !adopted.includes(a));
+  if (accounts.length === 0) {
+    await removeAccounts(storage, keyStore, SIWP_STORAGE_KEY, legacy);
+    return;
+  }
+  await writeAccounts(storage, SIWP_STORAGE_KEY, {
+    ...legacy,
+    activeUid: accounts.some((a) => a.uid === legacy.activeUid)
+      ? legacy.activeUid
+      : undefined,
+    accounts,
+  });
+}
+
+/**
+ * Loads the SIWP identity of the active account from storage. ECDSA session keys are loaded
+ * from the key store. Encrypted sessions need the key derived from the passkey. Stored state
+ * that can't be read is quarantined and reported as `STORAGE_CORRUPT`.
+ */
+export async function loadIdentity(
+  storage: IdentityStorage = defaultStorage,
+  keyStore: SessionKeyStore = defaultKeyStore,
+  encryptionKey?: CryptoKey,
+  key = SIWP_STORAGE_KEY
+) {
+  const {
+    s: { activeUid, accounts },
+    quarantined,
+  } = await upgradeStoredAccounts(storage, key);
+  const stored = accounts.find((account) => account.uid === activeUid);
+
+  if (!stored) {
+    if (quarantined.length > 0) {
+      throw new SiwpError("STORAGE_CORRUPT", "Stored state is invalid.", {
+        cause: quarantined.map(({ reason }) => reason),
+      });
+    }
+    throw new SiwpError("NO_STORED_IDENTITY", "No stored identity found.");
+  }
+
+  const s = await decryptIdentity(stored, encryptionKey);
+  // Failures of the key store itself are thrown as is, only a key pair that is missing
+  // makes the identity unreadable.
+  const keyPair =
+    s.keyType === "ECDSA" && s.keyId ? await keyStore.get(s.keyId) : undefined;
+  try {
+    const reason = validateIdentity(s);
+    if (reason || !s.delegationChain) {
+      throw new Error(reason ?? "Missing delegation chain.");
+    }
+    const d = DelegationChain.fromJSON(s.delegationChain);
+    const i = DelegationIdentity.fromDelegation(
+      await loadSessionIdentity(s, keyPair),
+      d
+    );
+
+    return [s.uid, i, d] as const;
+  } catch (e) {
+    await quarantineIdentity(storage, key, stored, String(e));
+    throw new SiwpError("STORAGE_CORRUPT", "Stored state is invalid.", {
+      cause: e,
+    });
+  }
+}
+
+/**
+ * Returns the encrypted session of the active account, or `undefined` if there is none or
+ * it is not encrypted.
+ */
+export async function loadEncryptedSession(
+  storage: IdentityStorage = defaultStorage,
+  key = SIWP_STORAGE_KEY
+) {
+  const { activeUid, accounts } = await readAccounts(storage, key);
+  const s = accounts.find((account) => account.uid === activeUid);
+  return s?.encrypted ? { uid: s.uid, ...s.encrypted } : undefined;
+}
+
+/**
+ * Lists all accounts with a stored identity.
+ */
+export async function loadAccounts(
+  storage: IdentityStorage = defaultStorage,
+  key = SIWP_STORAGE_KEY
+): Promise<IdentityAccount[]> {
+  const { accounts } = await readAccounts(storage, key);
+
+  return accounts.map((s) => {
+    if (s.encrypted) {
+      return {
+        uid: s.uid,
+        principal: Principal.fromText(s.encrypted.principal),
+        expiresAt: new Date(s.encrypted.expiresAt),
+      };
+    }
+
+    // Unencrypted identities always have a delegation chain, see validateIdentity.
+    const d = DelegationChain.fromJSON(
+      s.delegationChain as JsonnableDelegationChain
+    );
+    return {
+      uid: s.uid,
+      principal: Principal.selfAuthenticating(new Uint8Array(d.publicKey)),
+      expiresAt: getDelegationChainExpiration(d),
+    };
+  });
+}
+
+/**
+ * Encrypts the session identity and delegation chain. The account details stay readable.
+ */
+async function encryptSession(
+  encryption: SessionEncryption,
+  session: unknown,
   delegationChain: DelegationChain
+): Promise<EncryptedSessionStorage> {
+  return {
+    ...(await encryptJSON(encryption.key, session)),
+    credentialId: encryption.credentialId,
+    rpId: encryption.rpId,
+    principal: Principal.selfAuthenticating(
+      new Uint8Array(delegationChain.publicKey)
+    ).toText(),
+    expiresAt: getDelegationChainExpiration(delegationChain).getTime(),
+  };
+}
+
+/**
+ * Saves the SIWP identity to storage and makes it the active account. An existing
+ * identity for the same uid is replaced. ECDSA session key pairs are saved to the key
+ * store, never serialized. With `encryption`, the session identity and delegation chain
+ * are stored encrypted.
+ */
+export async function saveIdentity(
+  uid: string,
+  sessionIdentity: SessionIdentity,
+  delegationChain: DelegationChain,
+  storage: IdentityStorage = defaultStorage,
+  keyStore: SessionKeyStore = defaultKeyStore,
+  encryption?: SessionEncryption,
+  key = SIWP_STORAGE_KEY
 ) {
-  localStorage.setItem(
-    SIWP_STORAGE_KEY,
-    JSON.stringify({
-      uid: uid,
-      sessionIdentity: sessionIdentity.toJSON(),
-      delegationChain: delegationChain.toJSON(),
-    })
-  );
+  const s = await readAccounts(storage, key);
+
+  const isECDSA = sessionIdentity instanceof ECDSAKeyIdentity;
+  const keyId = isECDSA ? sessionKeyId(key, uid) : undefined;
+  const previousKeyId = storedKeyId(s.accounts, uid);
+  if (previousKeyId && previousKeyId !== keyId) {
+    await keyStore.remove(previousKeyId);
+  }
+  if (sessionIdentity instanceof ECDSAKeyIdentity && keyId) {
+    await keyStore.set(keyId, sessionIdentity.getKeyPair());
+  }
+
+  const session = {
+    sessionIdentity: isECDSA ? undefined : sessionIdentity.toJSON(),
+    delegationChain: delegationChain.toJSON(),
+  };
+  const identity: SiweIdentityStorage = {
+    uid,
+    keyType: isECDSA ? "ECDSA" : "Ed25519",
+    keyId,
+    ...(encryption
+      ? {
+          encrypted: await encryptSession(encryption, session, delegationChain),
+        }
+      : session),
+  };
+
+  await writeAccounts(storage, key, {
+    ...s,
+    activeUid: uid,
+    accounts: [
+      ...s.accounts.filter((account) => account.uid !== uid),
+      identity,
+    ],
+  });
 }
 
 /**
- * Clears the SIWP identity from local storage.
+ * Makes the stored identity of the uid the active account.
  */
-export function clearIdentity() {
-  localStorage.removeItem(SIWP_STORAGE_KEY);
+export async function setActiveIdentity(
+  uid: string,
+  storage: IdentityStorage = defaultStorage,
+  key = SIWP_STORAGE_KEY
+) {
+  const s = await readAccounts(storage, key);
+
+  if (!s.accounts.some((account) => account.uid === uid)) {
+    throw new SiwpError("NO_STORED_IDENTITY", "No stored identity found.");
+  }
+
+  await writeAccounts(storage, key, { ...s, activeUid: uid });
+}
+
+/**
+ * Removes the stored identity of the uid, including its session key pair. If it is the
+ * active account, no account is active afterwards. Removing the last account removes the
+ * quarantine as well.
+ */
+export async function removeIdentity(
+  uid: string,
+  storage: IdentityStorage = defaultStorage,
+  keyStore: SessionKeyStore = defaultKeyStore,
+  key = SIWP_STORAGE_KEY
+) {
+  const s = await readAccounts(storage, key);
+  const keyId = storedKeyId(s.accounts, uid);
+  if (keyId) {
+    await keyStore.remove(keyId);
+  }
+
+  const accounts = s.accounts.filter((account) => account.uid !== uid);
+  if (accounts.length === 0) {
+    await removeAccounts(storage, keyStore, key, s);
+    return;
+  }
+  await writeAccounts(storage, key, {
+    ...s,
+    activeUid: s.activeUid === uid ? undefined : s.activeUid,
+    accounts,
+  });
+}
+
+/**
+ * Clears the SIWP identity of the active account from storage.
+ */
+export async function clearIdentity(
+  storage: IdentityStorage = defaultStorage,
+  keyStore: SessionKeyStore = defaultKeyStore,
+  key = SIWP_STORAGE_KEY
+) {
+  const s = await readAccounts(storage, key);
+  if (s.activeUid !== undefined) {
+    await removeIdentity(s.activeUid, storage, keyStore, key);
+  } else if (s.accounts.length === 0) {
+    await removeAccounts(storage, keyStore, key, s);
+  }
 }
@@ -0,0 +1,92 @@
+import { SignIdentity } from "@dfinity/agent";
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Receives the diagnostics of the client. `console` can be passed as is.
+ */
+export type Logger = {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+};
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+const REDACTED = "[redacted]";
+
+// Properties that hold session keys, passkey assertions or other secrets.
+const SECRET_KEYS = new RegExp(
+  [
+    "secret",
+    "private",
+    "session_?(identity|key)",
+    "signature",
+    "webauthnResponse",
+    "authenticationState",
+    "prf",
+    "ciphertext",
+  ].join("|"),
+  "i"
+);
+
+/**
+ * Replaces session keys, identities and other secrets in logged data with `[redacted]`.
+ */
+export function redactSecrets(value: unknown, depth = 0): unknown {
+  if (
+    value instanceof SignIdentity ||
+    (typeof CryptoKey !== "undefined" && value instanceof CryptoKey)
+  ) {
+    return REDACTED;
+  }
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    value instanceof Error ||
+    depth > 5
+  ) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item, depth + 1));
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEYS.test(key) ? REDACTED : redactSecrets(item, depth + 1),
+    ])
+  );
+}
+
+/**
+ * Wraps a logger so that only messages at or above the level reach it. Secrets in the
+ * logged data are redacted unless `logSecrets` is set.
+ */
+export function createLogger(
+  logger: Logger = console,
+  level: LogLevel = "warn",
+  logSecrets = false
+): Logger {
+  const threshold = LEVELS.indexOf(level);
+  const method =
+    (name: Exclude<LogLevel, "silent">) =>
+    (message: string, ...data: unknown[]) => {
+      if (LEVELS.indexOf(name) < threshold) return;
+      logger[name](
+        message,
+        ...(logSecrets ? data : data.map((item) => redactSecrets(item)))
+      );
+    };
+
+  return {
+    debug: method("debug"),
+    info: method("info"),
+    warn: method("warn"),
+    error: method("error"),
+  };
+}
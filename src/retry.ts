@@ -0,0 +1,99 @@
+import {
+  AgentHTTPResponseError,
+  UpdateCallRejectedError,
+} from "@dfinity/agent";
+import { SiwpError } from "./error";
+import { abortable, throwIfAborted } from "./abort";
+
+export type RetryOptions = {
+  /** How often a failed call is retried. Defaults to 3, `0` disables retries. */
+  retries?: number;
+
+  /** The delay before the first retry in ms, doubled for every further retry. Defaults
+   * to 500. */
+  delay?: number;
+
+  /** The maximum delay between two attempts in ms. Defaults to 5000. */
+  maxDelay?: number;
+
+  /** Decides whether a failed call is retried. Defaults to `isRetryableError`, wrap it to
+   * retry further errors, for example canister errors of a custom backend. */
+  shouldRetry?: (error: unknown) => boolean;
+};
+
+/**
+ * Runs a canister request, retrying it while it fails with a retryable error.
+ */
+export type Retry = <T>(request: () => Promise<T>) => Promise<T>;
+
+// The replica rejected the call with SYS_TRANSIENT, for example because the canister was
+// busy or the subnet overloaded.
+const TRANSIENT_REJECT = /Reject code: 2\b/;
+
+// The error siwp_get_delegation returns while the signature of the delegation is not part
+// of the certified tree yet.
+const UNCERTIFIED_DELEGATION = /signature not found/i;
+
+function isTransientStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Whether a failed canister request may succeed when sent again: network failures,
+ * transient replica rejections, server errors and a delegation that is not certified yet.
+ * Other errors returned by the canister itself are final, as are the errors of the passkey
+ * ceremony.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof SiwpError) {
+    // Right after siwp_login the delegation may not be part of the certified tree yet.
+    return (
+      error.code === "DELEGATION_FAILED" &&
+      UNCERTIFIED_DELEGATION.test(error.canisterError ?? "")
+    );
+  }
+  if (error instanceof AgentHTTPResponseError) {
+    return isTransientStatus(error.response.status);
+  }
+  if (error instanceof UpdateCallRejectedError && !error.response.body) {
+    return isTransientStatus(error.response.status);
+  }
+  // fetch rejects with a TypeError if the request couldn't be sent at all.
+  if (error instanceof TypeError) return true;
+
+  return error instanceof Error && TRANSIENT_REJECT.test(error.message);
+}
+
+/**
+ * Creates a `Retry` that backs off exponentially between attempts. `onAttempt` is called
+ * before every attempt with its number, starting at 1. Waiting is cut short when the
+ * signal is aborted.
+ */
+export function createRetry(
+  {
+    retries = 3,
+    delay = 500,
+    maxDelay = 5000,
+    shouldRetry = isRetryableError,
+  }: RetryOptions = {},
+  signal?: AbortSignal,
+  onAttempt?: (attempt: number) => void
+): Retry {
+  return async (request) => {
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+      onAttempt?.(attempt);
+      try {
+        return await request();
+      } catch (e) {
+        if (attempt > retries || !shouldRetry(e)) throw e;
+      }
+
+      const wait = Math.min(delay * 2 ** (attempt - 1), maxDelay);
+      await abortable(
+        new Promise((resolve) => setTimeout(resolve, wait)),
+        signal
+      );
+    }
+  };
+}
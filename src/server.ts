@@ -0,0 +1,5 @@
+/**
+ * Helpers for server code, for example React Server Components. Unlike the main entry, this
+ * entry is not marked as client code, so its functions can be called on the server.
+ */
+export { readSessionHint, SESSION_HINT_COOKIE } from "./session-hint";
@@ -11,6 +11,9 @@ export type CanisterPublicKey = PublicKey;
 
 export type Expiration = [] | [bigint];
 
+/** Canisters the delegation is restricted to. An empty option means no restriction. */
+export type Targets = [] | [Array<Principal>];
+
 export interface Delegation {
   pubkey: PublicKey;
   targets: [] | [Array<Principal>];
@@ -33,6 +36,12 @@ export interface LoginDetails {
 
 export type LoginResponse = { Ok: BindingDelegationDeatils } | { Err: string };
 
+export type StartRegistrationResponse = string;
+
+export type RegistrationResponse = string;
+
+export type RegisterResponse = { Ok: Username } | { Err: string };
+
 export type PublicKey = Uint8Array | number[];
 
 export type SessionKey = PublicKey;
@@ -45,18 +54,38 @@ export interface SignedDelegation {
 export type Timestamp = bigint;
 
 export interface IDENTITY_SERVICE {
-  siwp_prepare_login_username: ActorMethod<[Username], StartAuthResponse>;
-  siwp_prepare_login: ActorMethod<[], StartAuthResponse>;
-  siwp_login: ActorMethod<
-    [WebAuthnResponse, AuthState, SessionKey, Expiration],
+  /** Optional. Only available on canisters that support username logins. */
+  siwp_prepare_login_username?: ActorMethod<[Username], StartAuthResponse>;
+  /** Optional. Only available on canisters that support discoverable logins. */
+  siwp_prepare_login?: ActorMethod<[], StartAuthResponse>;
+  /** Optional. Only available on canisters that support discoverable logins. The trailing
+   * `Targets` argument is only sent when the IDL declares it. */
+  siwp_login?: ActorMethod<
+    | [WebAuthnResponse, AuthState, SessionKey, Expiration]
+    | [WebAuthnResponse, AuthState, SessionKey, Expiration, Targets],
     LoginResponse
   >;
-  siwp_login_username: ActorMethod<
-    [WebAuthnResponse, SessionKey, Expiration],
+  /** Optional. Only available on canisters that support username logins. The trailing
+   * `Targets` argument is only sent when the IDL declares it. */
+  siwp_login_username?: ActorMethod<
+    | [WebAuthnResponse, SessionKey, Expiration]
+    | [WebAuthnResponse, SessionKey, Expiration, Targets],
     LoginResponse
   >;
+  /** The trailing `Targets` argument is only sent when the IDL declares it. */
   siwp_get_delegation: ActorMethod<
-    [Username, SessionKey, Timestamp],
+    | [Username, SessionKey, Timestamp]
+    | [Username, SessionKey, Timestamp, Targets],
     GetDelegationResponse
   >;
+  /** Optional. Only available on canisters that support passkey registration. */
+  siwp_prepare_register?: ActorMethod<
+    [Username],
+    StartRegistrationResponse
+  >;
+  /** Optional. Only available on canisters that support passkey registration. */
+  siwp_register?: ActorMethod<
+    [Username, RegistrationResponse],
+    RegisterResponse
+  >;
 }
@@ -0,0 +1,79 @@
+import { fromHex, toHex } from "@dfinity/agent";
+
+/**
+ * The PRF input evaluated by the passkey. The same passkey always returns the same output
+ * for it, so the session can be decrypted with any later passkey touch.
+ */
+export const PRF_SALT = new TextEncoder().encode("siwp-session-encryption");
+
+const HKDF_INFO = new TextEncoder().encode("siwp-session-encryption-key");
+
+/**
+ * The key the stored session is encrypted with and the passkey it was derived from.
+ */
+export type SessionEncryption = {
+  key: CryptoKey;
+  /** Base64url encoded id of the passkey credential. */
+  credentialId: string;
+  /** The relying party the passkey belongs to, if not the current domain. */
+  rpId?: string;
+};
+
+export type EncryptedData = {
+  /** Hex encoded AES-GCM initialization vector. */
+  iv: string;
+  /** Hex encoded ciphertext. */
+  ciphertext: string;
+};
+
+/**
+ * Derives a non-extractable AES-GCM key from the PRF output of a passkey.
+ */
+export async function deriveEncryptionKey(prfOutput: BufferSource) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    prfOutput,
+    "HKDF",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: HKDF_INFO },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Encrypts a JSON serializable value.
+ */
+export async function encryptJSON(
+  key: CryptoKey,
+  value: unknown
+): Promise<EncryptedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: toHex(iv), ciphertext: toHex(ciphertext) };
+}
+
+/**
+ * Decrypts a value encrypted with `encryptJSON`. Rejects if the key is not the one the
+ * value was encrypted with.
+ */
+export async function decryptJSON<T>(
+  key: CryptoKey,
+  { iv, ciphertext }: EncryptedData
+): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromHex(iv) },
+    key,
+    fromHex(ciphertext)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
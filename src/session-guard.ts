@@ -0,0 +1,53 @@
+import { AgentHTTPResponseError, type Agent } from "@dfinity/agent";
+
+// Reasons the replica gives when it rejects the sender's signature or delegation.
+const AUTHENTICATION_FAILURE = new RegExp(
+  [
+    "invalid (signature|delegation)",
+    "delegation (has )?expired",
+    "not one of the delegation targets",
+  ].join("|"),
+  "i"
+);
+
+/**
+ * Whether the error means the IC rejected the identity of the request, because of an invalid
+ * signature or a revoked, expired or otherwise invalid delegation.
+ */
+export function isAuthenticationError(error: unknown) {
+  return (
+    error instanceof AgentHTTPResponseError &&
+    error.response.status >= 400 &&
+    error.response.status < 500 &&
+    AUTHENTICATION_FAILURE.test(error.message)
+  );
+}
+
+function guard<A extends unknown[], R>(
+  request: (...args: A) => Promise<R>,
+  onAuthenticationError: (error: unknown) => void
+) {
+  return async (...args: A) => {
+    try {
+      return await request(...args);
+    } catch (e) {
+      if (isAuthenticationError(e)) {
+        onAuthenticationError(e);
+      }
+      throw e;
+    }
+  };
+}
+
+/**
+ * Wraps the requests of the agent to report authentication errors. The errors are still
+ * thrown to the caller.
+ */
+export function guardAgent(
+  agent: Agent,
+  onAuthenticationError: (error: unknown) => void
+) {
+  agent.call = guard(agent.call.bind(agent), onAuthenticationError);
+  agent.query = guard(agent.query.bind(agent), onAuthenticationError);
+  agent.readState = guard(agent.readState.bind(agent), onAuthenticationError);
+}
@@ -0,0 +1,48 @@
+/**
+ * The default name of the session hint cookie.
+ */
+export const SESSION_HINT_COOKIE = "siwp-session";
+
+/**
+ * Sets the session hint cookie until the delegation expires, or removes it if there is no
+ * session. The cookie only says that a session exists, it never contains the identity.
+ */
+export function writeSessionHint(name: string, expiresAt?: Date) {
+  if (typeof document === "undefined") return;
+
+  const maxAge = expiresAt
+    ? Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000))
+    : 0;
+  const secure =
+    typeof location !== "undefined" && location.protocol === "https:"
+      ? "; Secure"
+      : "";
+  document.cookie = `${encodeURIComponent(name)}=${
+    maxAge > 0 ? "1" : ""
+  }; Path=/; Max-Age=${maxAge}; SameSite=Lax${secure}`;
+}
+
+/**
+ * Reads the session hint from a `Cookie` header on the server, or from `document.cookie`.
+ * Pass the result to the `sessionHint` prop to render logged-in layouts on the server. The
+ * hint is not proof of a session, never use it for authorization.
+ *
+ * @example
+ * ```ts
+ * // Next.js app router, in a server component
+ * import { readSessionHint } from "use-ic-siwp-identity/server";
+ *
+ * const sessionHint = readSessionHint(headers().get("cookie"));
+ * ```
+ */
+export function readSessionHint(
+  cookie: string | null | undefined,
+  name = SESSION_HINT_COOKIE
+): boolean {
+  if (!cookie) return false;
+
+  return cookie.split(";").some((pair) => {
+    const [key, value] = pair.split("=").map((part) => part.trim());
+    return key === encodeURIComponent(name) && value === "1";
+  });
+}
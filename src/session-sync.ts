@@ -0,0 +1,44 @@
+/**
+ * `login` and `logout` report a change of the stored identity. `activity` and `extend`
+ * share user activity and `extendSession` calls, so that idle time is counted across tabs.
+ */
+export type SessionSyncMessage =
+  | { type: "login" }
+  | { type: "logout" }
+  | { type: "activity" }
+  | { type: "extend" };
+
+export type SessionSync = {
+  /** Notifies the other tabs about a change of the stored identity or user activity. */
+  post: (message: SessionSyncMessage) => void;
+
+  /** Stops listening for messages from other tabs. */
+  close: () => void;
+};
+
+/**
+ * Creates a channel to notify other tabs of the same origin about logins, logouts and user
+ * activity.
+ * Falls back to a no-op if `BroadcastChannel` is not available.
+ */
+export function createSessionSync(
+  name: string,
+  onMessage: (message: SessionSyncMessage) => void
+): SessionSync {
+  if (typeof BroadcastChannel === "undefined") {
+    return {
+      post: () => {},
+      close: () => {},
+    };
+  }
+
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => {
+    onMessage(event.data);
+  };
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
@@ -0,0 +1,1644 @@
+import {
+  Actor,
+  type ActorConfig,
+  type HttpAgentOptions,
+  type DerEncodedPublicKey,
+} from "@dfinity/agent";
+import {
+  DelegationIdentity,
+  ECDSAKeyIdentity,
+  Ed25519KeyIdentity,
+} from "@dfinity/identity";
+import type { IDL } from "@dfinity/candid";
+import { Principal } from "@dfinity/principal";
+import type {
+  IdentityLoginResponse,
+  LoginOptions,
+  ReauthenticateOptions,
+  ReauthenticateResponse,
+  SessionKeyLoginResponse,
+} from "./context.type";
+import type {
+  PublicKey,
+  SignedDelegation as ServiceSignedDelegation,
+} from "./service.interface";
+import {
+  SIWP_STORAGE_KEY,
+  adoptLegacyIdentities,
+  clearIdentity,
+  loadAccounts,
+  loadEncryptedSession,
+  loadIdentity,
+  removeIdentity,
+  saveIdentity,
+  setActiveIdentity,
+} from "./local-storage";
+import {
+  actorNotReady,
+  callGetDelegation,
+  callLogin,
+  createAnonymousActor,
+  callPasskeyPrf,
+  callPrepareLogin,
+  callPrepareRegister,
+  callRegister,
+  type PasskeyPrf,
+  type PrepareLoginResult,
+} from "./siwp-provider";
+import type {
+  State,
+  AnonymousActor,
+  IdentityActor,
+  UntypedService,
+} from "./state.type";
+import type {
+  IdentityStorage,
+  SessionIdentity,
+  SessionKeyStore,
+  SessionKeyType,
+} from "./storage.type";
+import {
+  createIdleManager,
+  type IdleManager,
+  type IdleOptions,
+} from "./idle-manager";
+import { createSessionSync, type SessionSync } from "./session-sync";
+import {
+  createDelegationChain,
+  getDelegationChainExpiration,
+  getDelegationChainTargets,
+  matchesDelegationTargets,
+} from "./delegation";
+import { SiwpError, toSiwpError } from "./error";
+import { throwIfAborted } from "./abort";
+import { verifyDelegationChain } from "./verify-delegation";
+import { SESSION_HINT_COOKIE, writeSessionHint } from "./session-hint";
+import { detectCapabilities } from "./capabilities";
+import { guardAgent } from "./session-guard";
+import { createRetry, type RetryOptions } from "./retry";
+import { createLogger, type LogLevel, type Logger } from "./logger";
+import {
+  PRF_SALT,
+  deriveEncryptionKey,
+  type SessionEncryption,
+} from "./session-encryption";
+import {
+  EVENT_CALLBACKS,
+  createEventEmitter,
+  type LoginMethod,
+  type LoginStep,
+  type LogoutReason,
+  type SiwpEventCallbacks,
+  type SiwpEventListener,
+  type SiwpEventMap,
+  type SiwpEventName,
+} from "./events";
+
+/**
+ * The longest delay `setTimeout` supports. Longer delays are split into several timeouts.
+ */
+const MAX_TIMEOUT = 2147483647;
+
+/**
+ * The default time (in ms) a step-up delegation from `reauthenticate` is valid for.
+ */
+const REAUTHENTICATION_EXPIRATION = 5 * 60 * 1000;
+
+export type SiwpIdentityClientOptions = {
+  /** Configuration options for the HTTP agent used to communicate with the Internet Computer network. */
+  httpAgentOptions?: HttpAgentOptions;
+
+  /** Configuration options for the actor. These options are passed to the actor upon its creation. */
+  actorOptions?: ActorConfig;
+
+  /** The Interface Description Language (IDL) factory for the canister. This factory is used to create an actor interface for the canister. */
+  idlFactory: IDL.InterfaceFactory;
+
+  /** The unique identifier of the canister on the Internet Computer network. This ID is used to establish a connection to the canister. */
+  canisterId: string;
+
+  /**
+   * If true, the client will use the local network instead of the main network.
+   * This is useful for testing purposes.
+   */
+  isLocalNetwork?: boolean;
+
+  /** Set the time (in ms) the delegation of the session key is valid for. To log out
+   * inactive users, use `idleOptions`. **/
+  expiration?: number;
+
+  /** Where the identity is persisted between page loads. Use one of the bundled adapters,
+   * `createLocalStorage`, `createSessionStorage`, `createIndexedDBStorage` or
+   * `createMemoryStorage`, or supply your own. Defaults to `localStorage`. */
+  storage?: IdentityStorage;
+
+  /** The key the identities are stored under. Defaults to `siwp-identity/<canisterId>`, so
+   * that providers for different canisters on the same origin keep separate sessions. */
+  storageKey?: string;
+
+  /** The type of session key created on login. `ECDSA` keys are non-extractable WebCrypto
+   * keys, kept in `sessionKeyStore`, which scripts on the page can use but not read.
+   * Defaults to `Ed25519`, whose key is serialized into `storage`. */
+  sessionKeyType?: SessionKeyType;
+
+  /** Where ECDSA session key pairs are kept. Defaults to IndexedDB, use
+   * `createMemoryKeyStore` together with `createMemoryStorage`. */
+  sessionKeyStore?: SessionKeyStore;
+
+  /** Encrypts the stored session with a key derived from the passkey (WebAuthn PRF
+   * extension). After a reload the session is locked until `unlock` is called. If the passkey
+   * doesn't support PRF, the session is not stored at all. */
+  encryptSession?: boolean;
+
+  /** Restricts the delegation to these canisters. A stolen session key can then only be used
+   * against them. Logins fail with `METHOD_NOT_SUPPORTED` if the canister's IDL doesn't
+   * declare the targets argument. */
+  targets?: Array<Principal | string>;
+
+  /** Retries backend calls that fail with a transient error, and fetching the delegation
+   * while it is not certified yet. Passkey prompts are never repeated. */
+  retry?: RetryOptions;
+
+  /** Received delegations are always checked before they are stored. If true, the certificate
+   * of the canister signature is verified against the IC root key as well. */
+  verifyCanisterSignature?: boolean;
+
+  /** Initial value of `sessionHint`, read on the server with `readSessionHint` from the
+   * `/server` entry. It must be the same on the server and in the browser to keep
+   * hydration consistent. */
+  sessionHint?: boolean;
+
+  /** Maintains a cookie that tells the server whether there is a session, without the
+   * identity itself. Pass a name to use another cookie than `siwp-session`. */
+  sessionHintCookie?: boolean | string;
+
+  /** Receives the diagnostics of the client, filtered by `logLevel`. Defaults to `console`. */
+  logger?: Logger;
+
+  /** The lowest level passed to the logger. Defaults to `warn`, use `silent` to turn logging
+   * off. */
+  logLevel?: LogLevel;
+
+  /** Passes session keys, passkey responses and other secrets to the logger unredacted.
+   * Never enable this in production. */
+  logSecrets?: boolean;
+
+  /** Enables the idle manager. The user is logged out after `idleTimeout` ms without
+   * activity in any tab, optionally with a warning window before that. */
+  idleOptions?: IdleOptions;
+} & SiwpEventCallbacks;
+
+/**
+ * Framework-agnostic client for SIWP (Sign-In with Passkey). Owns the identity state and
+ * the login process. Subscribe to state changes with `subscribe` and read the current
+ * state with `getSnapshot`. The type parameter is the canister's service type, it types
+ * the `identityActor`.
+ *
+ * @example
+ * ```ts
+ * import { SiwpIdentityClient } from 'useIcIdentity';
+ * import {canisterId, idlFactory, type _SERVICE} from "path-to/siwp-enabled-canister/index";
+ *
+ * const client = new SiwpIdentityClient<_SERVICE>({ idlFactory, canisterId });
+ * client.subscribe(() => render(client.getSnapshot()));
+ * await client.start();
+ * await client.login();
+ *```
+ */
+export class SiwpIdentityClient<T extends UntypedService = UntypedService> {
+  private options: SiwpIdentityClientOptions;
+
+  private state: State<T>;
+
+  // The state during server-side rendering and hydration. Never contains actors, so that it
+  // is the same on the server and in the browser.
+  private serverState: State<T>;
+
+  private listeners = new Set<() => void>();
+
+  // Timers and listeners only run between start and stop.
+  private isStarted = false;
+
+  // The idle manager is running while a user is logged in and idleOptions are set.
+  private idleManager: IdleManager | null = null;
+
+  // Notifies other tabs about logins and logouts in this tab.
+  private sessionSync: SessionSync | null = null;
+
+  private expiryTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  // Only one passkey ceremony, a login, registration, unlock or re-authentication, can run
+  // at a time. Starting another one would cancel the pending passkey prompt.
+  private isCeremonyRunning = false;
+
+  // Aborts the pending background login started by loginWithAutofill.
+  private autofillController: AbortController | null = null;
+
+  private logger: Logger;
+
+  private events = createEventEmitter((e) => {
+    this.logger.error("Event listener failed", e);
+  });
+
+  // The step the running login is in, reported when it fails.
+  private loginStep: LoginStep = "prepare";
+
+  // Keys of encrypted sessions by passkey credential id, kept in memory only.
+  private encryptionKeys = new Map<string, CryptoKey>();
+
+  constructor(options: SiwpIdentityClientOptions) {
+    this.options = options;
+    this.logger = createLogger(
+      options.logger,
+      options.logLevel,
+      options.logSecrets
+    );
+    this.serverState = {
+      isInitializing: true,
+      authStatus: "unknown",
+      sessionHint: options.sessionHint ?? false,
+      prepareLoginStatus: "idle",
+      loginStatus: "idle",
+      registerStatus: "idle",
+      isExpired: false,
+      isSessionInvalid: false,
+      requestAttempt: 0,
+      isLocked: false,
+      isIdleWarning: false,
+      accounts: [],
+      ...detectCapabilities(options.idlFactory),
+    };
+    this.state = {
+      ...this.serverState,
+      // Actors need a browser, on the server they are created on start.
+      anonymousActor:
+        typeof window === "undefined" ? undefined : this.createAnonymousActor(),
+    };
+  }
+
+  /**
+   * Registers a listener that is called on every state change. Returns a function that
+   * removes the listener.
+   */
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns the current state. The returned object is replaced, never mutated, on every
+   * state change.
+   */
+  getSnapshot = () => this.state;
+
+  /**
+   * Returns the state to render on the server and during hydration: no identity, no actors
+   * and `authStatus` `unknown`.
+   */
+  getServerSnapshot = () => this.serverState;
+
+  /**
+   * Registers a listener for a lifecycle event. Returns a function that removes the
+   * listener. The callbacks in the options are called for the events as well.
+   */
+  on = <E extends SiwpEventName>(event: E, listener: SiwpEventListener<E>) =>
+    this.events.on(event, listener);
+
+  /**
+   * Updates the options. The anonymous and identity actors are recreated if any of the
+   * options they depend on changed.
+   */
+  setOptions = (options: SiwpIdentityClientOptions) => {
+    const previous = this.options;
+    this.options = options;
+    this.logger = createLogger(
+      options.logger,
+      options.logLevel,
+      options.logSecrets
+    );
+
+    if (
+      previous.idlFactory !== options.idlFactory ||
+      previous.canisterId !== options.canisterId ||
+      previous.httpAgentOptions !== options.httpAgentOptions ||
+      previous.actorOptions !== options.actorOptions ||
+      previous.isLocalNetwork !== options.isLocalNetwork
+    ) {
+      this.updateState({
+        anonymousActor: this.createAnonymousActor(),
+        identityActor: this.state.identity
+          ? this.createIdentityActor(this.state.identity)
+          : undefined,
+        ...detectCapabilities(options.idlFactory),
+      });
+    }
+
+    if (
+      previous.idleOptions?.idleTimeout !== options.idleOptions?.idleTimeout ||
+      previous.idleOptions?.warningTime !== options.idleOptions?.warningTime
+    ) {
+      this.stopIdleManager();
+      this.startIdleManager();
+    }
+  };
+
+  /**
+   * Loads the identity from storage and starts listening for logins and logouts in other
+   * tabs. Call `stop` to release the listeners and timers again.
+   */
+  start = async () => {
+    this.isStarted = true;
+
+    if (!this.state.anonymousActor) {
+      this.updateState({
+        anonymousActor: this.createAnonymousActor(),
+      });
+    }
+
+    if (!this.sessionSync) {
+      // Keep the identity in sync with logins and logouts in other tabs. Both reload the
+      // identity from storage, so that tabs with separate storage are not affected. Activity
+      // in other tabs keeps this one from going idle.
+      this.sessionSync = createSessionSync(this.storageKey, ({ type }) => {
+        if (type === "activity") {
+          this.idleManager?.activity();
+          return;
+        }
+        if (type === "extend") {
+          this.extendIdleTimer();
+          return;
+        }
+        this.restoreIdentity().catch(() => {
+          this.endSession("other-tab");
+        });
+      });
+    }
+
+    this.scheduleExpiry();
+    this.startIdleManager();
+
+    try {
+      await adoptLegacyIdentities(
+        this.options.canisterId,
+        this.options.storage,
+        this.options.sessionKeyStore,
+        this.storageKey
+      );
+      await this.restoreIdentity();
+    } catch (e) {
+      this.logger.info("Could not load identity from storage", e);
+      this.updateState({
+        isInitializing: false,
+      });
+    }
+  };
+
+  /**
+   * Stops listening for other tabs, user activity and the delegation expiry.
+   */
+  stop = () => {
+    this.isStarted = false;
+    this.autofillController?.abort();
+    this.sessionSync?.close();
+    this.sessionSync = null;
+    clearTimeout(this.expiryTimeout);
+    this.stopIdleManager();
+  };
+
+  /**
+   * Initiates the login process.
+   *
+   * @returns {IdentityLoginResponse} The new identity. If an error occurs, the promise rejects and
+   * the error is also available in the loginError property. Aborting the signal rejects with an
+   * `ABORTED` error and resets the login state to idle.
+   */
+  login = (loginUid?: string, { signal }: LoginOptions = {}) =>
+    this.runLogin(signal, "passkey", loginUid, async (anonymousActor) => {
+      this.assertLoginSupported(loginUid);
+      const prepared = await this.prepareLogin(
+        anonymousActor,
+        loginUid,
+        signal,
+        this.options.encryptSession
+      );
+
+      return this.completeLogin(
+        anonymousActor,
+        "passkey",
+        prepared,
+        loginUid,
+        signal
+      );
+    });
+
+  /**
+   * Starts a login in the background that completes when the user picks a passkey from the
+   * browser's autofill dropdown (conditional mediation). Call it when the login page mounts;
+   * the page needs an input with `autocomplete="username webauthn"`. A regular login aborts
+   * the background request, as does aborting the signal.
+   *
+   * @returns {IdentityLoginResponse} The new identity once the user has picked a passkey. Rejects
+   * with an `ABORTED` error when the background request is aborted.
+   */
+  loginWithAutofill = async ({ signal }: LoginOptions = {}) => {
+    const { anonymousActor } = this.state;
+    if (!anonymousActor) {
+      throw actorNotReady();
+    }
+
+    this.assertLoginSupported();
+    if (this.isCeremonyRunning) {
+      throw new SiwpError(
+        "LOGIN_IN_PROGRESS",
+        "Don't start an autofill login while a passkey prompt is open."
+      );
+    }
+
+    // Only one background request can be pending.
+    this.autofillController?.abort();
+    const controller = new AbortController();
+    this.autofillController = controller;
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      throwIfAborted(signal);
+      const prepared = await callPrepareLogin(
+        anonymousActor,
+        undefined,
+        controller.signal,
+        true,
+        undefined,
+        this.options.encryptSession ? PRF_SALT : undefined,
+        this.retry(controller.signal)
+      );
+      if (!prepared.authenticationState) {
+        throw new SiwpError(
+          "PREPARE_FAILED",
+          "Invalid authentication response"
+        );
+      }
+
+      // The user picked a passkey, from here on this is a regular login.
+      this.autofillController = null;
+      return await this.runLogin(
+        controller.signal,
+        "autofill",
+        undefined,
+        (anonymousActor) =>
+          this.completeLogin(
+            anonymousActor,
+            "autofill",
+            prepared,
+            undefined,
+            controller.signal
+          )
+      );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      if (this.autofillController === controller) {
+        this.autofillController = null;
+      }
+      if (!this.isCeremonyRunning) {
+        this.resetRequestAttempt();
+      }
+    }
+  };
+
+  /**
+   * Logs in with a session key that lives elsewhere, for example in a browser extension or a
+   * native app. The delegation is bound to the supplied session key instead of a newly
+   * generated one and is not stored. Hand it over with `toDelegationDeepLink`,
+   * `toDelegationFragment` or `toDelegationMessage` and import it with `importDelegation`.
+   *
+   * @returns {SessionKeyLoginResponse} The username and the delegation chain for the session key.
+   * If an error occurs, the promise rejects and the error is also available in the loginError
+   * property.
+   */
+  loginWithSessionKey = (
+    sessionPublicKey: DerEncodedPublicKey,
+    loginUid?: string,
+    { signal }: LoginOptions = {}
+  ): Promise<SessionKeyLoginResponse> => {
+    // The login state of this client is restored afterwards, it is not logged in with the
+    // external session key.
+    const { loginStatus } = this.state;
+    return this.runLogin(
+      signal,
+      "session-key",
+      loginUid,
+      async (anonymousActor) => {
+        this.assertLoginSupported(loginUid);
+        const { webauthnResponse, authenticationState } =
+          await this.prepareLogin(anonymousActor, loginUid, signal);
+
+        this.loginStep = "login";
+        const loginOkResponse = await callLogin(
+          anonymousActor,
+          webauthnResponse,
+          sessionPublicKey,
+          authenticationState,
+          loginUid,
+          this.options.expiration,
+          this.targets,
+          signal,
+          this.retry(signal)
+        );
+
+        const delegationChain = await this.fetchDelegationChain(
+          anonymousActor,
+          loginOkResponse.username,
+          sessionPublicKey,
+          loginOkResponse.login_details.expiration,
+          loginOkResponse.login_details.user_canister_pubkey,
+          signal
+        );
+
+        this.updateState({
+          loginStatus,
+        });
+
+        const response = {
+          username: loginOkResponse.username,
+          delegationChain,
+          expiresAt: getDelegationChainExpiration(delegationChain),
+        };
+        this.emit("loginSuccess", {
+          uid: response.username,
+          principal: Principal.selfAuthenticating(
+            new Uint8Array(delegationChain.publicKey)
+          ),
+          expiresAt: response.expiresAt,
+          method: "session-key",
+        });
+
+        return response;
+      }
+    );
+  };
+
+  /**
+   * Call the backend's siwp_get_delegation method to get the delegation.
+   */
+  getDelegation = async (
+    identityId: string,
+    sessionPublicKey: DerEncodedPublicKey,
+    sessionIdentity: SessionIdentity,
+    expiration: bigint,
+    user_canister_pubkey: PublicKey,
+    signal?: AbortSignal,
+    encryption?: SessionEncryption
+  ): Promise<IdentityLoginResponse> => {
+    const { anonymousActor } = this.state;
+    if (!anonymousActor) {
+      throw actorNotReady();
+    }
+
+    const delegationChain = await this.fetchDelegationChain(
+      anonymousActor,
+      identityId,
+      sessionPublicKey,
+      expiration,
+      user_canister_pubkey,
+      signal
+    );
+
+    // Create a new delegation identity from the session identity and the
+    // delegation chain.
+    const identity = DelegationIdentity.fromDelegation(
+      sessionIdentity,
+      delegationChain
+    );
+
+    // Save the identity to storage. Sessions that should be encrypted but can't be are
+    // kept in memory only.
+    throwIfAborted(signal);
+    if (!this.options.encryptSession || encryption) {
+      await saveIdentity(
+        identityId,
+        sessionIdentity,
+        delegationChain,
+        this.options.storage,
+        this.options.sessionKeyStore,
+        encryption,
+        this.storageKey
+      );
+      this.sessionSync?.post({ type: "login" });
+    } else {
+      this.logger.warn(
+        "The passkey doesn't support the PRF extension, the session is not stored."
+      );
+    }
+    const accounts = await loadAccounts(this.options.storage, this.storageKey);
+
+    // Set the identity in state.
+    this.updateState({
+      loginStatus: "success",
+      identityId,
+      identity,
+      delegationChain,
+      expiresAt: getDelegationChainExpiration(delegationChain),
+      targets: getDelegationChainTargets(delegationChain),
+      isExpired: false,
+      isSessionInvalid: false,
+      requestAttempt: 0,
+      isLocked: false,
+      accounts,
+      identityActor: this.createIdentityActor(identity),
+    });
+
+    return {
+      identity,
+      username: identityId,
+    };
+  };
+
+  /**
+   * Registers a new passkey for the username and then logs in with it.
+   *
+   * @returns {IdentityLoginResponse} The login response once the new passkey has been used to
+   * log in. If an error occurs, the error is available in the registerError property.
+   */
+  register = async (username: string, { signal }: LoginOptions = {}) => {
+    const { anonymousActor } = this.state;
+    if (!anonymousActor) {
+      const error = actorNotReady();
+      this.updateState({
+        registerStatus: "error",
+        registerError: error,
+      });
+      throw error;
+    }
+
+    await this.runCeremony(async () => {
+      this.updateState({
+        registerStatus: "registering",
+        registerError: undefined,
+      });
+
+      try {
+        // Registering logs in with the username afterwards, both flows are needed.
+        if (!this.state.supportsRegistration) {
+          throw new SiwpError(
+            "METHOD_NOT_SUPPORTED",
+            "Canister does not support passkey registration"
+          );
+        }
+        this.assertLoginSupported(username);
+
+        const registrationResponse = await callPrepareRegister(
+          anonymousActor,
+          username,
+          signal,
+          () =>
+            this.emit("passkeyPrompt", {
+              uid: username,
+              ceremony: "registration",
+            }),
+          this.retry(signal)
+        );
+        await callRegister(
+          anonymousActor,
+          username,
+          registrationResponse,
+          signal
+        );
+      } catch (e) {
+        const error = toSiwpError(e, "REGISTER_FAILED", "Unable to register.");
+        if (error.code === "ABORTED") {
+          this.updateState({
+            registerStatus: "idle",
+          });
+          throw error;
+        }
+        this.logger.error("Registration failed", error);
+        this.updateState({
+          registerStatus: "error",
+          registerError: error,
+        });
+        throw error;
+      }
+    });
+
+    this.updateState({
+      registerStatus: "success",
+    });
+
+    // The passkey is registered, continue with the regular login flow.
+    return this.login(username, { signal });
+  };
+
+  /**
+   * Clears the state and storage. Effectively "logs the user out".
+   */
+  clear = () => {
+    this.logout("user");
+  };
+
+  /**
+   * Switches to another account with a stored identity.
+   */
+  switchAccount = async (uid: string) => {
+    await setActiveIdentity(uid, this.options.storage, this.storageKey);
+    await this.restoreIdentity();
+    this.sessionSync?.post({ type: "login" });
+  };
+
+  /**
+   * Removes the stored identity of an account. Removing the current account logs the
+   * user out.
+   */
+  removeAccount = async (uid: string) => {
+    if (uid === this.state.identityId) {
+      this.endSession("user");
+    }
+    await removeIdentity(
+      uid,
+      this.options.storage,
+      this.options.sessionKeyStore,
+      this.storageKey
+    );
+    this.sessionSync?.post({ type: "logout" });
+    await this.refreshAccounts();
+  };
+
+  /**
+   * Unlocks an encrypted session after a reload by asking the user to touch the passkey the
+   * session was encrypted with.
+   *
+   * @returns {IdentityLoginResponse} The restored identity.
+   */
+  unlock = ({ signal }: LoginOptions = {}): Promise<IdentityLoginResponse> =>
+    this.runCeremony(async () => {
+      const encrypted = await loadEncryptedSession(
+        this.options.storage,
+        this.storageKey
+      );
+      if (!encrypted) {
+        throw new SiwpError(
+          "NO_STORED_IDENTITY",
+          "No encrypted session found."
+        );
+      }
+
+      const { uid, credentialId, rpId } = encrypted;
+      const output = await callPasskeyPrf(
+        PRF_SALT,
+        credentialId,
+        rpId,
+        signal,
+        () => {
+          this.emit("passkeyPrompt", { uid, ceremony: "authentication" });
+        }
+      );
+      this.encryptionKeys.set(credentialId, await deriveEncryptionKey(output));
+      await this.restoreIdentity();
+
+      const { identity, identityId } = this.state;
+      if (!identity || !identityId) {
+        throw new SiwpError("NO_STORED_IDENTITY", "The session has expired.");
+      }
+      return { identity, username: identityId };
+    });
+
+  /**
+   * Asks the user to touch their passkey again before a sensitive action, such as a payment.
+   * Returns a separate short-lived delegation, restricted to the requested targets or by
+   * default to the canister, that proves the recent passkey use. If the canister can't
+   * restrict delegations, see `supportsDelegationTargets`, the delegation is unrestricted.
+   * The current session is neither replaced nor stored.
+   *
+   * @returns {ReauthenticateResponse} The step-up identity and its delegation chain.
+   */
+  reauthenticate = async ({
+    signal,
+    expiration = REAUTHENTICATION_EXPIRATION,
+    targets,
+  }: ReauthenticateOptions = {}): Promise<ReauthenticateResponse> => {
+    const { anonymousActor, identityId, identity } = this.state;
+    if (!identity || identityId === undefined) {
+      throw new SiwpError(
+        "NO_STORED_IDENTITY",
+        "Log in before re-authenticating."
+      );
+    }
+    if (!anonymousActor) {
+      throw actorNotReady();
+    }
+
+    return this.runCeremony(async () => {
+      // Prefer the username flow, which only offers the passkeys of the current account.
+      const loginUid = this.state.supportsUsernameLogin ? identityId : undefined;
+      this.assertLoginSupported(loginUid);
+      const { webauthnResponse, authenticationState } = await callPrepareLogin(
+        anonymousActor,
+        loginUid,
+        signal,
+        false,
+        () => {
+          this.emit("passkeyPrompt", {
+            uid: identityId,
+            ceremony: "authentication",
+          });
+        },
+        undefined,
+        this.retry(signal)
+      );
+
+      const requestedTargets = this.reauthenticationTargets(targets);
+      const sessionIdentity = await this.generateSessionIdentity();
+      const sessionPublicKey = sessionIdentity.getPublicKey().toDer();
+      const loginOkResponse = await callLogin(
+        anonymousActor,
+        webauthnResponse,
+        sessionPublicKey,
+        authenticationState,
+        loginUid,
+        expiration,
+        requestedTargets,
+        signal,
+        this.retry(signal)
+      );
+      if (loginOkResponse.username !== identityId) {
+        throw new SiwpError(
+          "LOGIN_FAILED",
+          "The passkey belongs to another account."
+        );
+      }
+
+      const delegationChain = await this.fetchDelegationChain(
+        anonymousActor,
+        identityId,
+        sessionPublicKey,
+        loginOkResponse.login_details.expiration,
+        loginOkResponse.login_details.user_canister_pubkey,
+        signal,
+        requestedTargets,
+        expiration
+      );
+
+      return {
+        username: identityId,
+        identity: DelegationIdentity.fromDelegation(
+          sessionIdentity,
+          delegationChain
+        ),
+        delegationChain,
+        expiresAt: getDelegationChainExpiration(delegationChain),
+        targets: getDelegationChainTargets(delegationChain),
+      };
+    });
+  };
+
+  /**
+   * Restarts the idle timer and ends the warning window, in all tabs.
+   */
+  extendSession = () => {
+    this.extendIdleTimer();
+    this.sessionSync?.post({ type: "extend" });
+  };
+
+  /**
+   * Emits the event to the listeners registered with `on` and to the callback in the options.
+   */
+  private emit<E extends SiwpEventName>(event: E, payload: SiwpEventMap[E]) {
+    this.events.emit(event, payload);
+
+    const callback = this.options[EVENT_CALLBACKS[event]] as
+      | SiwpEventListener<E>
+      | undefined;
+    try {
+      callback?.(payload);
+    } catch (e) {
+      this.logger.error(`${EVENT_CALLBACKS[event]} callback failed`, e);
+    }
+  }
+
+  private updateState(newState: Partial<State<T>>) {
+    const previous = this.state;
+    this.state = { ...previous, ...newState };
+
+    if (!this.state.isInitializing) {
+      const isAuthenticated = this.state.identity !== undefined;
+      this.state.authStatus = isAuthenticated
+        ? "authenticated"
+        : "unauthenticated";
+      this.state.sessionHint = isAuthenticated || this.state.isLocked;
+    }
+
+    if (previous.expiresAt !== this.state.expiresAt) {
+      this.scheduleExpiry();
+    }
+    if (
+      previous.expiresAt !== this.state.expiresAt ||
+      previous.isInitializing !== this.state.isInitializing
+    ) {
+      this.updateSessionHint();
+    }
+    if (previous.identity !== this.state.identity) {
+      this.stopIdleManager();
+      this.startIdleManager();
+    }
+
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Fails early if the canister doesn't implement the login flow, a username login if a uid
+   * is given and a discoverable login otherwise.
+   */
+  private assertLoginSupported(loginUid?: string) {
+    const { supportsDiscoverableLogin, supportsUsernameLogin } = this.state;
+    if (loginUid !== undefined && !supportsUsernameLogin) {
+      throw new SiwpError(
+        "METHOD_NOT_SUPPORTED",
+        "Canister does not support username login. Call login without a uid."
+      );
+    }
+    if (loginUid === undefined && !supportsDiscoverableLogin) {
+      throw new SiwpError(
+        "METHOD_NOT_SUPPORTED",
+        "Canister does not support discoverable login. Call login with a uid."
+      );
+    }
+  }
+
+  /**
+   * The delegation targets requested in the options.
+   */
+  private get targets(): Principal[] | undefined {
+    return this.options.targets?.map((target) =>
+      typeof target === "string" ? Principal.fromText(target) : target
+    );
+  }
+
+  /**
+   * The targets of a step-up delegation: the requested ones, else the ones in the options,
+   * else the canister. Canisters that can't restrict delegations issue an unrestricted one,
+   * which is only short-lived.
+   */
+  private reauthenticationTargets(targets?: Array<Principal | string>) {
+    const requested = targets?.map((target) =>
+      typeof target === "string" ? Principal.fromText(target) : target
+    );
+    if (requested && requested.length > 0) return requested;
+    if (!this.state.supportsDelegationTargets) return undefined;
+
+    const { targets: defaultTargets } = this;
+    return defaultTargets && defaultTargets.length > 0
+      ? defaultTargets
+      : [Principal.fromText(this.options.canisterId)];
+  }
+
+  /**
+   * The key the identities of this client are stored under.
+   */
+  private get storageKey() {
+    return (
+      this.options.storageKey ??
+      `${SIWP_STORAGE_KEY}/${this.options.canisterId}`
+    );
+  }
+
+  /**
+   * Calls the backend's siwp_get_delegation method and builds the delegation chain for the
+   * session key. The delegation is verified before it is returned. Targets and expiration
+   * default to the ones in the options.
+   */
+  private async fetchDelegationChain(
+    anonymousActor: AnonymousActor,
+    identityId: string,
+    sessionPublicKey: DerEncodedPublicKey,
+    expiration: bigint,
+    user_canister_pubkey: PublicKey,
+    signal?: AbortSignal,
+    targets = this.targets,
+    requestedExpiration = this.options.expiration
+  ) {
+    this.loginStep = "delegation";
+
+    // Logging in is a two-step process. First, the signed SIWP message is sent to the backend.
+    // Then, the backend's siwp_get_delegation method is called to get the delegation.
+    const signedDelegation: ServiceSignedDelegation = await callGetDelegation(
+      anonymousActor,
+      identityId,
+      sessionPublicKey,
+      expiration,
+      targets,
+      signal,
+      this.retry(signal)
+    );
+
+    // Create a new delegation chain from the delegation.
+    const delegationChain = createDelegationChain(
+      signedDelegation,
+      user_canister_pubkey
+    );
+
+    // Never use a delegation that is not the one requested.
+    await verifyDelegationChain(delegationChain, {
+      sessionPublicKey,
+      maxExpiration: this.maxExpiration(expiration, requestedExpiration),
+      targets,
+      rootKey: this.options.verifyCanisterSignature
+        ? this.rootKey(anonymousActor)
+        : undefined,
+    });
+
+    return delegationChain;
+  }
+
+  /**
+   * The latest acceptable delegation expiration: the one returned on login, but no later
+   * than the requested expiration, by default the one in the options.
+   */
+  private maxExpiration(
+    expiration: bigint,
+    requestedExpiration = this.options.expiration
+  ) {
+    if (!requestedExpiration) return expiration;
+
+    const requested =
+      BigInt(Date.now() + requestedExpiration) * BigInt(1000000);
+    return requested < expiration ? requested : expiration;
+  }
+
+  /**
+   * Creates the retry for the backend calls of a login or registration, which reports each
+   * attempt in `requestAttempt`.
+   */
+  private retry(signal?: AbortSignal) {
+    return createRetry(this.options.retry, signal, (requestAttempt) => {
+      this.updateState({ requestAttempt });
+    });
+  }
+
+  /**
+   * Resets `requestAttempt` once the flow that retried its backend calls has finished.
+   */
+  private resetRequestAttempt() {
+    if (this.state.requestAttempt !== 0) {
+      this.updateState({ requestAttempt: 0 });
+    }
+  }
+
+  /**
+   * The IC root key the actor's agent verifies responses with.
+   */
+  private rootKey(actor: AnonymousActor) {
+    const rootKey = Actor.agentOf(actor)?.rootKey;
+    if (!rootKey) {
+      throw new SiwpError(
+        "DELEGATION_INVALID",
+        "The root key is not available, the delegation signature can't be verified."
+      );
+    }
+    return rootKey;
+  }
+
+  private createAnonymousActor(): AnonymousActor | undefined {
+    const {
+      idlFactory,
+      canisterId,
+      httpAgentOptions,
+      actorOptions,
+      isLocalNetwork,
+    } = this.options;
+
+    return createAnonymousActor({
+      idlFactory,
+      canisterId,
+      httpAgentOptions,
+      actorOptions,
+      isLocalNetwork,
+      logger: this.logger,
+    });
+  }
+
+  private createIdentityActor(
+    identity: DelegationIdentity
+  ): IdentityActor<T> | undefined {
+    const {
+      idlFactory,
+      canisterId,
+      httpAgentOptions,
+      actorOptions,
+      isLocalNetwork,
+    } = this.options;
+
+    const actor = createAnonymousActor<T>({
+      idlFactory,
+      canisterId,
+      httpAgentOptions: { ...(httpAgentOptions || {}), identity },
+      actorOptions,
+      isLocalNetwork,
+      logger: this.logger,
+    });
+
+    const agent = actor && Actor.agentOf(actor);
+    if (agent) {
+      guardAgent(agent, (error) => this.invalidateSession(identity, error));
+    }
+    return actor;
+  }
+
+  /**
+   * Runs a login flow and keeps the login state up to date. Only one passkey prompt can be
+   * open at a time, see `runCeremony`.
+   */
+  private async runLogin<R>(
+    signal: AbortSignal | undefined,
+    method: LoginMethod,
+    uid: string | undefined,
+    flow: (anonymousActor: AnonymousActor) => Promise<R>
+  ): Promise<R> {
+    const { anonymousActor } = this.state;
+    if (!anonymousActor) {
+      const error = actorNotReady();
+      this.updateState({
+        loginStatus: "error",
+        loginError: error,
+      });
+      throw error;
+    }
+
+    return this.runCeremony(async () => {
+      this.loginStep = "prepare";
+      this.updateState({
+        loginStatus: "logging-in",
+        loginError: undefined,
+      });
+      this.emit("loginStart", { uid, method });
+
+      try {
+        throwIfAborted(signal);
+        return await flow(anonymousActor);
+      } catch (e) {
+        const error = toSiwpError(e, "UNKNOWN", "Unable to login.");
+        if (error.code === "ABORTED") {
+          this.updateState({
+            loginStatus: "idle",
+            prepareLoginStatus: "idle",
+          });
+        } else {
+          this.logger.error("Login failed", error);
+          this.updateState({
+            loginStatus: "error",
+            loginError: error,
+          });
+          this.emit("loginError", {
+            uid,
+            method,
+            step: this.loginStep,
+            error,
+          });
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Runs an action that shows a passkey prompt. Only one can run at a time, a second call is
+   * rejected with `LOGIN_IN_PROGRESS` and leaves the running one untouched. A pending
+   * autofill login is aborted.
+   */
+  private async runCeremony<R>(action: () => Promise<R>): Promise<R> {
+    // An explicit passkey prompt replaces a pending autofill login.
+    this.autofillController?.abort();
+
+    if (this.isCeremonyRunning) {
+      throw new SiwpError(
+        "LOGIN_IN_PROGRESS",
+        "Another login, registration, unlock or re-authentication is running."
+      );
+    }
+
+    this.isCeremonyRunning = true;
+    try {
+      return await action();
+    } finally {
+      this.isCeremonyRunning = false;
+      this.resetRequestAttempt();
+    }
+  }
+
+  /**
+   * Completes a login once the user has authenticated with their passkey: logs in with a new
+   * session key and fetches the delegation for it. If the passkey returned a PRF output, the
+   * stored session is encrypted with it.
+   */
+  private async completeLogin(
+    anonymousActor: AnonymousActor,
+    method: LoginMethod,
+    { webauthnResponse, authenticationState, prf }: PrepareLoginResult,
+    loginUid?: string,
+    signal?: AbortSignal
+  ) {
+    this.loginStep = "login";
+
+    // Important for security! A random session identity is created on each login.
+    const sessionIdentity = await this.generateSessionIdentity();
+    const sessionPublicKey = sessionIdentity.getPublicKey().toDer();
+
+    // Logging in is a two-step process. First, the signed SIWP message is sent to the backend.
+    // Then, the backend's siwp_get_delegation method is called to get the delegation.
+    const loginOkResponse = await callLogin(
+      anonymousActor,
+      webauthnResponse,
+      sessionPublicKey,
+      authenticationState,
+      loginUid,
+      this.options.expiration,
+      this.targets,
+      signal,
+      this.retry(signal)
+    );
+
+    this.logger.debug("Logged in, fetching the delegation", loginOkResponse);
+    const response = await this.getDelegation(
+      loginOkResponse.username,
+      sessionPublicKey,
+      sessionIdentity,
+      loginOkResponse.login_details.expiration,
+      loginOkResponse.login_details.user_canister_pubkey,
+      signal,
+      prf && (await this.createEncryption(prf))
+    );
+
+    this.emit("loginSuccess", {
+      uid: response.username,
+      principal: response.identity.getPrincipal(),
+      expiresAt: getDelegationChainExpiration(
+        response.identity.getDelegation()
+      ),
+      method,
+    });
+    return response;
+  }
+
+  /**
+   * Derives the key the session is encrypted with from the PRF output of the passkey.
+   */
+  private async createEncryption({
+    output,
+    credentialId,
+    rpId,
+  }: PasskeyPrf): Promise<SessionEncryption> {
+    const key = await deriveEncryptionKey(output);
+    this.encryptionKeys.set(credentialId, key);
+    return { key, credentialId, rpId };
+  }
+
+  /**
+   * Creates a session key of the type requested in the options.
+   */
+  private async generateSessionIdentity(): Promise<SessionIdentity> {
+    return this.options.sessionKeyType === "ECDSA"
+      ? ECDSAKeyIdentity.generate({ extractable: false })
+      : Ed25519KeyIdentity.generate();
+  }
+
+  /**
+   * Runs the prepareLogin step shared by login and loginWithSessionKey: asks the backend
+   * for a challenge and lets the user authenticate with their passkey.
+   *
+   * @returns The webauthn response, for discoverable logins the authentication state and,
+   * with `requestPrf`, the PRF output of the passkey if it supports it.
+   */
+  private async prepareLogin(
+    anonymousActor: AnonymousActor,
+    loginUid?: string,
+    signal?: AbortSignal,
+    requestPrf = false
+  ): Promise<PrepareLoginResult> {
+    this.loginStep = "prepare";
+    this.updateState({
+      prepareLoginStatus: "preparing",
+      prepareLoginError: undefined,
+    });
+
+    try {
+      const response = await callPrepareLogin(
+        anonymousActor,
+        loginUid,
+        signal,
+        false,
+        () => {
+          this.loginStep = "passkey";
+          this.emit("passkeyPrompt", {
+            uid: loginUid,
+            ceremony: "authentication",
+          });
+        },
+        requestPrf ? PRF_SALT : undefined,
+        this.retry(signal)
+      );
+
+      // Discoverable logins can't complete without the authentication state.
+      if (loginUid === undefined && !response.authenticationState) {
+        throw new SiwpError(
+          "PREPARE_FAILED",
+          "Invalid authentication response"
+        );
+      }
+
+      this.updateState({
+        prepareLoginStatus: "success",
+      });
+
+      return response;
+    } catch (e) {
+      const error = toSiwpError(e, "PREPARE_FAILED", "Unable to login.");
+      if (error.code !== "ABORTED") {
+        this.updateState({
+          prepareLoginStatus: "error",
+          prepareLoginError: error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Loads the list of accounts with a stored identity into state.
+   */
+  private async refreshAccounts() {
+    this.updateState({
+      accounts: await loadAccounts(this.options.storage, this.storageKey),
+    });
+  }
+
+  /**
+   * Resets the state and clears the stored identity of the active account.
+   */
+  private logout(reason: LogoutReason) {
+    this.endSession(reason);
+    clearIdentity(
+      this.options.storage,
+      this.options.sessionKeyStore,
+      this.storageKey
+    )
+      .then(() => {
+        this.sessionSync?.post({ type: "logout" });
+        return this.refreshAccounts();
+      })
+      .catch((e) => {
+        this.logger.error("Unable to clear the stored identity", e);
+      });
+  }
+
+  /**
+   * Resets the state without touching storage and emits a `logout` event if a user was
+   * logged in.
+   */
+  private endSession(reason: LogoutReason) {
+    const { identityId, identity } = this.state;
+    this.resetState();
+    if (identity) {
+      this.emit("logout", {
+        uid: identityId,
+        principal: identity.getPrincipal(),
+        reason,
+      });
+    }
+  }
+
+  /**
+   * Resets the state without touching storage.
+   */
+  private resetState() {
+    this.updateState({
+      isInitializing: false,
+      prepareLoginStatus: "idle",
+      prepareLoginError: undefined,
+      loginStatus: "idle",
+      loginError: undefined,
+      registerStatus: "idle",
+      registerError: undefined,
+      identity: undefined,
+      identityId: undefined,
+      delegationChain: undefined,
+      expiresAt: undefined,
+      targets: undefined,
+      isExpired: false,
+      isSessionInvalid: false,
+      requestAttempt: 0,
+      isLocked: false,
+      isIdleWarning: false,
+      identityActor: undefined,
+    });
+  }
+
+  /**
+   * Loads the identity from storage into state. Expired identities and identities for other
+   * than the requested targets are not restored. Encrypted sessions stay locked until the
+   * key for them is known.
+   */
+  private async restoreIdentity() {
+    await this.refreshAccounts();
+
+    const encrypted = await loadEncryptedSession(
+      this.options.storage,
+      this.storageKey
+    );
+    const encryptionKey =
+      encrypted && this.encryptionKeys.get(encrypted.credentialId);
+    if (encrypted && !encryptionKey) {
+      const expiresAt = new Date(encrypted.expiresAt);
+      if (expiresAt.getTime() <= Date.now()) {
+        this.expireSession(encrypted.uid, expiresAt);
+        return;
+      }
+      // Drop the identity of a previous account, a locked session has none. Changing the
+      // identity also stops the idle manager.
+      this.updateState({
+        identityId: encrypted.uid,
+        identity: undefined,
+        identityActor: undefined,
+        delegationChain: undefined,
+        targets: undefined,
+        expiresAt,
+        isLocked: true,
+        isInitializing: false,
+      });
+      return;
+    }
+
+    const [a, i, d] = await loadIdentity(
+      this.options.storage,
+      this.options.sessionKeyStore,
+      encryptionKey,
+      this.storageKey
+    ).catch((e) => {
+      if (encrypted && e instanceof SiwpError && e.code === "UNLOCK_FAILED") {
+        this.encryptionKeys.delete(encrypted.credentialId);
+      }
+      throw e;
+    });
+
+    const targets = getDelegationChainTargets(d);
+    if (!matchesDelegationTargets(targets, this.targets)) {
+      this.logout("invalid");
+      throw new SiwpError(
+        "DELEGATION_INVALID",
+        "Stored delegation targets don't match the requested targets."
+      );
+    }
+
+    const expiresAt = getDelegationChainExpiration(d);
+    if (expiresAt.getTime() <= Date.now()) {
+      // Never rehydrate an expired delegation, calls with it would be rejected.
+      this.expireSession(a, expiresAt);
+      return;
+    }
+
+    this.updateState({
+      identityId: a,
+      identity: i,
+      delegationChain: d,
+      expiresAt,
+      targets,
+      isLocked: false,
+      isInitializing: false,
+      identityActor: this.createIdentityActor(i),
+    });
+    this.emit("sessionRestored", {
+      uid: a,
+      principal: i.getPrincipal(),
+      expiresAt,
+    });
+  }
+
+  /**
+   * Logs the user out because the delegation has expired.
+   */
+  private expireSession(
+    uid = this.state.identityId,
+    expiresAt = this.state.expiresAt
+  ) {
+    this.emit("sessionExpired", { uid, expiresAt });
+    this.logout("expired");
+    this.updateState({
+      isExpired: true,
+    });
+  }
+
+  /**
+   * Logs the user out because the IC rejected a call made with the identity. Failures of
+   * calls made with an identity that is no longer current are ignored.
+   */
+  private invalidateSession(identity: DelegationIdentity, cause: unknown) {
+    const { identityId } = this.state;
+    if (this.state.identity !== identity) return;
+
+    this.emit("sessionInvalid", {
+      uid: identityId,
+      principal: identity.getPrincipal(),
+      error: new SiwpError(
+        "SESSION_INVALID",
+        "The IC rejected the delegation of the identity.",
+        { cause }
+      ),
+    });
+    this.logout("invalid");
+    this.updateState({
+      isSessionInvalid: true,
+    });
+  }
+
+  /**
+   * Logs the user out when the delegation expires.
+   */
+  private scheduleExpiry() {
+    clearTimeout(this.expiryTimeout);
+
+    const expiresAt = this.state.expiresAt;
+    if (!expiresAt || !this.isStarted) return;
+
+    const schedule = () => {
+      const remaining = expiresAt.getTime() - Date.now();
+      if (remaining <= 0) {
+        this.expireSession();
+        return;
+      }
+      this.expiryTimeout = setTimeout(
+        schedule,
+        Math.min(remaining, MAX_TIMEOUT)
+      );
+    };
+    schedule();
+  }
+
+  /**
+   * Keeps the session hint cookie in sync with the session, if enabled.
+   */
+  private updateSessionHint() {
+    const { sessionHintCookie } = this.options;
+    if (!sessionHintCookie || this.state.isInitializing) return;
+
+    writeSessionHint(
+      typeof sessionHintCookie === "string"
+        ? sessionHintCookie
+        : SESSION_HINT_COOKIE,
+      this.state.expiresAt
+    );
+  }
+
+  /**
+   * Watches user activity while logged in and logs the user out when idle. Activity is
+   * shared with the other tabs, so the user is only idle if they are idle in all tabs.
+   */
+  private startIdleManager() {
+    const idleTimeout = this.options.idleOptions?.idleTimeout;
+    if (
+      !idleTimeout ||
+      !this.state.identity ||
+      !this.isStarted ||
+      this.idleManager
+    ) {
+      return;
+    }
+
+    this.idleManager = createIdleManager({
+      idleTimeout,
+      warningTime: this.options.idleOptions?.warningTime,
+      events: this.options.idleOptions?.events,
+      onWarning: () => {
+        this.updateState({
+          isIdleWarning: true,
+        });
+        this.options.idleOptions?.onWarning?.();
+      },
+      onIdle: () => {
+        this.updateState({
+          isIdleWarning: false,
+        });
+        this.options.idleOptions?.onIdle?.();
+        if (!this.options.idleOptions?.disableDefaultIdleCallback) {
+          this.logout("idle");
+        }
+      },
+      onActivity: () => {
+        this.sessionSync?.post({ type: "activity" });
+      },
+    });
+  }
+
+  /**
+   * Restarts the idle timer of this tab and ends the warning window.
+   */
+  private extendIdleTimer() {
+    this.idleManager?.reset();
+    this.updateState({
+      isIdleWarning: false,
+    });
+  }
+
+  private stopIdleManager() {
+    this.idleManager?.stop();
+    this.idleManager = null;
+  }
+}
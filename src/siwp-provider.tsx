@@ -7,78 +7,431 @@ import {
   type ActorSubclass,
 } from "@dfinity/agent";
 import type { IDL } from "@dfinity/candid";
-import type { IDENTITY_SERVICE } from "./service.interface";
-import { startAuthentication } from "@simplewebauthn/browser";
+import type { Principal } from "@dfinity/principal";
+import type {
+  IDENTITY_SERVICE,
+  LoginResponse,
+  StartAuthResponse,
+  Targets,
+} from "./service.interface";
+import {
+  browserSupportsWebAuthn,
+  browserSupportsWebAuthnAutofill,
+  bufferToBase64URLString,
+  startAuthentication,
+  startRegistration,
+} from "@simplewebauthn/browser";
+import { SiwpError, toWebauthnError } from "./error";
+import { abortable, abortableCeremony } from "./abort";
+import type { Retry } from "./retry";
+import type { Logger } from "./logger";
+
+// Sends the request once, used when the caller doesn't retry.
+const once: Retry = (request) => request();
 
 /**
  * Creates an anonymous actor for interactions with the Internet Computer.
- * This is used primarily for the initial authentication process.
+ * This is used primarily for the initial authentication process. Pass an identity in
+ * `httpAgentOptions` and the canister's service type to create an authenticated actor.
  */
-export function createAnonymousActor({
+export function createAnonymousActor<T = IDENTITY_SERVICE>({
   idlFactory,
   canisterId,
   httpAgentOptions,
   actorOptions,
   isLocalNetwork,
+  logger = console,
 }: {
   idlFactory: IDL.InterfaceFactory;
   canisterId: string;
   httpAgentOptions?: HttpAgentOptions;
   actorOptions?: ActorConfig;
   isLocalNetwork?: boolean;
+  logger?: Logger;
 }) {
   if (!idlFactory || !canisterId) return;
   const agent = new HttpAgent({ retryTimes: 2, ...httpAgentOptions });
 
   if (isLocalNetwork) {
     agent.fetchRootKey().catch((err) => {
-      console.warn(
-        "Unable to fetch root key. Check to ensure that your local replica is running"
+      logger.error(
+        "Unable to fetch root key. Check to ensure that your local replica is running",
+        err
       );
-      console.error(err);
     });
   }
-  return Actor.createActor<IDENTITY_SERVICE>(idlFactory, {
+  return Actor.createActor<T>(idlFactory, {
     agent,
     canisterId,
     ...actorOptions,
   });
 }
 
+function assertWebAuthnSupported() {
+  if (!browserSupportsWebAuthn()) {
+    throw new SiwpError(
+      "WEBAUTHN_NOT_SUPPORTED",
+      "WebAuthn is not supported in this browser"
+    );
+  }
+}
+
+/**
+ * Appends the `Targets` argument to the canister call arguments if the method declares it.
+ * The argument count is read from the actor's IDL, since candid rejects calls with fewer
+ * arguments than declared. Requesting targets from a method that doesn't declare the
+ * argument fails.
+ */
+function withTargets<A extends [] | unknown[]>(
+  anonymousActor: ActorSubclass<IDENTITY_SERVICE>,
+  method: keyof IDENTITY_SERVICE,
+  args: A,
+  targets?: Principal[]
+): A | [...A, Targets] {
+  const func = Actor.interfaceOf(anonymousActor)._fields.find(
+    ([name]) => name === method
+  )?.[1];
+  const requested = !!targets && targets.length > 0;
+
+  if (func && func.argTypes.length > args.length) {
+    return [...args, requested ? [targets] : []];
+  }
+  if (requested) {
+    throw new SiwpError(
+      "METHOD_NOT_SUPPORTED",
+      `Canister does not support delegation targets for ${method}`
+    );
+  }
+  return args;
+}
+
+/**
+ * The result of the passkey prompt of a login.
+ */
+export type PrepareLoginResult = {
+  /** The serialized assertion for the canister. */
+  webauthnResponse: string;
+  /** Only returned for discoverable logins. */
+  authenticationState?: string;
+  /** The PRF output of the passkey, if a PRF salt was passed and the passkey supports it. */
+  prf?: PasskeyPrf;
+};
+
+export type PasskeyPrf = {
+  output: BufferSource;
+  /** Base64url encoded id of the passkey credential. */
+  credentialId: string;
+  rpId?: string;
+};
+
+type AuthenticationOptions = Parameters<typeof startAuthentication>[0];
+
+type RegistrationOptions = Parameters<typeof startRegistration>[0];
+
+type AuthenticationResponse = Awaited<ReturnType<typeof startAuthentication>>;
+
+/**
+ * Requests the PRF extension for the salt. The salt is evaluated by the passkey, the output
+ * never leaves the browser.
+ */
+function withPrf(
+  authOptions: AuthenticationOptions,
+  prfSalt: Uint8Array | undefined
+): AuthenticationOptions {
+  if (!prfSalt) return authOptions;
+
+  // The DOM types don't include the PRF extension yet.
+  const extensions: AuthenticationExtensionsClientInputs & {
+    prf: { eval: { first: BufferSource } };
+  } = {
+    ...authOptions.extensions,
+    prf: { eval: { first: prfSalt } },
+  };
+  return { ...authOptions, extensions };
+}
+
+/**
+ * Removes the PRF output from the assertion, so that it is never sent to the canister.
+ */
+function takePrf(
+  response: AuthenticationResponse,
+  rpId: string | undefined
+): [AuthenticationResponse, PasskeyPrf | undefined] {
+  const { prf, ...clientExtensionResults } =
+    response.clientExtensionResults as AuthenticationExtensionsClientOutputs & {
+      prf?: { results?: { first?: BufferSource } };
+    };
+  const output = prf?.results?.first;
+
+  return [
+    { ...response, clientExtensionResults },
+    output ? { output, credentialId: response.id, rpId } : undefined,
+  ];
+}
+
+/**
+ * The error thrown when the client has no anonymous actor, because of missing options.
+ */
+export function actorNotReady() {
+  return new SiwpError(
+    "ACTOR_NOT_READY",
+    "Client not initialized properly. Make sure to supply all required options to the SiwpIdentityClient."
+  );
+}
+
+function unsupportedLogin(flow: "discoverable" | "username") {
+  return new SiwpError(
+    "METHOD_NOT_SUPPORTED",
+    `Canister does not support ${flow} login`
+  );
+}
+
+/**
+ * Parses the `publicKey` options from a webauthn config returned by the backend.
+ */
+function parseWebauthnOptions<
+  O extends AuthenticationOptions | RegistrationOptions,
+>(webauthnConfig: string): O {
+  try {
+    return JSON.parse(webauthnConfig).publicKey;
+  } catch (e) {
+    throw new SiwpError("PREPARE_FAILED", "Invalid prepare response", {
+      cause: e,
+    });
+  }
+}
+
+/**
+ * Fetches a login challenge from the backend and lets the user authenticate with their
+ * passkey. With `useBrowserAutofill`, the passkey is picked from the browser's autofill
+ * dropdown of an input with `autocomplete="username webauthn"`, which can take indefinitely.
+ * `onPrompt` is called right before the passkey prompt is shown. With `prfSalt`, the PRF
+ * output of the passkey is returned as well. Only the backend call is retried, never the
+ * passkey prompt.
+ */
 export async function callPrepareLogin(
   anonymousActor: ActorSubclass<IDENTITY_SERVICE>,
-  username?: string
-) {
+  username?: string,
+  signal?: AbortSignal,
+  useBrowserAutofill = false,
+  onPrompt?: () => void,
+  prfSalt?: Uint8Array,
+  retry = once
+): Promise<PrepareLoginResult> {
   if (!anonymousActor) {
-    throw new Error("Invalid actor");
+    throw new SiwpError("ACTOR_NOT_READY", "Invalid actor");
+  }
+
+  assertWebAuthnSupported();
+
+  if (useBrowserAutofill && !(await browserSupportsWebAuthnAutofill())) {
+    throw new SiwpError(
+      "WEBAUTHN_NOT_SUPPORTED",
+      "WebAuthn autofill is not supported in this browser"
+    );
   }
 
-  const response =
-    username !== undefined
-      ? await anonymousActor.siwp_prepare_login_username(username)
-      : await anonymousActor.siwp_prepare_login();
+  let request: () => Promise<StartAuthResponse>;
+  if (username !== undefined) {
+    const prepareLogin = anonymousActor.siwp_prepare_login_username;
+    if (!prepareLogin) {
+      throw unsupportedLogin("username");
+    }
+    request = () => prepareLogin(username);
+  } else {
+    const prepareLogin = anonymousActor.siwp_prepare_login;
+    if (!prepareLogin) {
+      throw unsupportedLogin("discoverable");
+    }
+    request = () => prepareLogin();
+  }
+
+  let response;
+  try {
+    response = await abortable(retry(request), signal);
+  } catch (e) {
+    if (e instanceof SiwpError) throw e;
+    throw new SiwpError("PREPARE_FAILED", "Unable to prepare login", {
+      cause: e,
+    });
+  }
 
   if (!Array.isArray(response) && !response) {
-    throw new Error("Invalid prepare response");
+    throw new SiwpError("PREPARE_FAILED", "Invalid prepare response");
   }
 
   // webauthn
   const webauthnConfig = Array.isArray(response) ? response[0] : response;
-  const authOptions = JSON.parse(webauthnConfig).publicKey;
+  const authOptions = withPrf(
+    parseWebauthnOptions<AuthenticationOptions>(webauthnConfig),
+    prfSalt
+  );
   // step 2
-  const asseResp = await startAuthentication({
-    ...authOptions,
-  }).catch(() => {
-    throw new Error(`Webauthn fail`);
+  onPrompt?.();
+  const [asseResp, prf] = await abortableCeremony(
+    () => startAuthentication({ ...authOptions }, useBrowserAutofill),
+    signal
+  )
+    .then((response) => takePrf(response, authOptions.rpId))
+    .catch((e) => {
+      throw e instanceof SiwpError ? e : toWebauthnError(e);
+    });
+
+  return {
+    webauthnResponse: JSON.stringify(asseResp),
+    authenticationState: Array.isArray(response) ? response[1] : undefined,
+    prf,
+  };
+}
+
+/**
+ * Asks the user to touch the passkey to evaluate the PRF extension, without involving the
+ * backend. Used to unlock an encrypted session.
+ *
+ * @returns The PRF output.
+ */
+export async function callPasskeyPrf(
+  prfSalt: Uint8Array,
+  credentialId: string,
+  rpId?: string,
+  signal?: AbortSignal,
+  onPrompt?: () => void
+) {
+  assertWebAuthnSupported();
+
+  onPrompt?.();
+  const [, prf] = await abortableCeremony(
+    () =>
+      startAuthentication(
+        withPrf(
+          {
+            challenge: bufferToBase64URLString(
+              crypto.getRandomValues(new Uint8Array(32)).buffer
+            ),
+            allowCredentials: [{ id: credentialId, type: "public-key" }],
+            rpId,
+            userVerification: "required",
+          },
+          prfSalt
+        )
+      ),
+    signal
+  )
+    .then((response) => takePrf(response, rpId))
+    .catch((e) => {
+      throw e instanceof SiwpError ? e : toWebauthnError(e);
+    });
+
+  if (!prf) {
+    throw new SiwpError(
+      "WEBAUTHN_NOT_SUPPORTED",
+      "The passkey does not support the PRF extension"
+    );
+  }
+  return prf.output;
+}
+
+/**
+ * Fetches the registration options for a username from the backend and lets the
+ * user create a new passkey. `onPrompt` is called right before the passkey prompt is shown.
+ */
+export async function callPrepareRegister(
+  anonymousActor: ActorSubclass<IDENTITY_SERVICE>,
+  username: string,
+  signal?: AbortSignal,
+  onPrompt?: () => void,
+  retry = once
+) {
+  if (!anonymousActor) {
+    throw new SiwpError("ACTOR_NOT_READY", "Invalid actor");
+  }
+
+  const prepareRegister = anonymousActor.siwp_prepare_register;
+  if (!prepareRegister) {
+    throw new SiwpError(
+      "METHOD_NOT_SUPPORTED",
+      "Canister does not support passkey registration"
+    );
+  }
+
+  assertWebAuthnSupported();
+
+  let response;
+  try {
+    response = await abortable(
+      retry(() => prepareRegister(username)),
+      signal
+    );
+  } catch (e) {
+    if (e instanceof SiwpError) throw e;
+    throw new SiwpError("PREPARE_FAILED", "Unable to prepare register", {
+      cause: e,
+    });
+  }
+
+  if (!response) {
+    throw new SiwpError("PREPARE_FAILED", "Invalid prepare register response");
+  }
+
+  // webauthn
+  const registrationOptions =
+    parseWebauthnOptions<RegistrationOptions>(response);
+  onPrompt?.();
+  const attResp = await abortableCeremony(
+    () => startRegistration({ ...registrationOptions }),
+    signal
+  ).catch((e) => {
+    throw e instanceof SiwpError ? e : toWebauthnError(e);
   });
 
-  return Array.isArray(response)
-    ? [JSON.stringify(asseResp), response[1]]
-    : JSON.stringify(asseResp);
+  return JSON.stringify(attResp);
 }
 
 /**
- * Logs in the user by sending a signed SIWP message to the backend.
+ * Registers the newly created passkey for the username with the backend.
+ */
+export async function callRegister(
+  anonymousActor: ActorSubclass<IDENTITY_SERVICE>,
+  username: string,
+  registrationResponse: string,
+  signal?: AbortSignal
+) {
+  if (!anonymousActor) {
+    throw new SiwpError("ACTOR_NOT_READY", "Invalid actor");
+  }
+
+  if (!anonymousActor.siwp_register) {
+    throw new SiwpError(
+      "METHOD_NOT_SUPPORTED",
+      "Canister does not support passkey registration"
+    );
+  }
+
+  let response;
+  try {
+    response = await abortable(
+      anonymousActor.siwp_register(username, registrationResponse),
+      signal
+    );
+  } catch (e) {
+    if (e instanceof SiwpError) throw e;
+    throw new SiwpError("REGISTER_FAILED", "Unable to register", {
+      cause: e,
+    });
+  }
+
+  if ("Err" in response) {
+    throw new SiwpError("REGISTER_FAILED", response.Err, {
+      canisterError: response.Err,
+    });
+  }
+
+  return response.Ok;
+}
+
+/**
+ * Logs in the user by sending a signed SIWP message to the backend. Rejections by the
+ * backend are never retried.
  */
 export async function callLogin(
   anonymousActor: ActorSubclass<IDENTITY_SERVICE>,
@@ -86,60 +439,111 @@ export async function callLogin(
   sessionPublicKey: DerEncodedPublicKey,
   authenticationState?: string,
   username?: string,
-  expiration?: number
+  expiration?: number,
+  targets?: Principal[],
+  signal?: AbortSignal,
+  retry = once
 ) {
   if (!anonymousActor) {
-    throw new Error("Invalid actor");
+    throw new SiwpError("ACTOR_NOT_READY", "Invalid actor");
+  }
+
+  const sessionKey = new Uint8Array(sessionPublicKey);
+  const expirationArg: [] | [bigint] = !expiration
+    ? []
+    : [BigInt(expiration * 1000000)];
+
+  // The flow is decided by the username, like in callPrepareLogin.
+  let request: () => Promise<LoginResponse>;
+  if (username !== undefined) {
+    const login = anonymousActor.siwp_login_username;
+    if (!login) {
+      throw unsupportedLogin("username");
+    }
+    const args = withTargets(
+      anonymousActor,
+      "siwp_login_username",
+      [webauthnResponse, sessionKey, expirationArg],
+      targets
+    );
+    request = () => login(...args);
+  } else {
+    const login = anonymousActor.siwp_login;
+    if (!login) {
+      throw unsupportedLogin("discoverable");
+    }
+    if (!authenticationState) {
+      throw new SiwpError(
+        "LOGIN_FAILED",
+        "Discoverable login requires the authentication state"
+      );
+    }
+    const args = withTargets(
+      anonymousActor,
+      "siwp_login",
+      [webauthnResponse, authenticationState, sessionKey, expirationArg],
+      targets
+    );
+    request = () => login(...args);
   }
 
   let loginReponse;
   try {
-    loginReponse =
-      username === undefined && authenticationState
-        ? await anonymousActor.siwp_login(
-            webauthnResponse,
-            authenticationState,
-            new Uint8Array(sessionPublicKey),
-            !expiration ? [] : [BigInt(expiration * 1000000)]
-          )
-        : await anonymousActor.siwp_login_username(
-            webauthnResponse,
-            new Uint8Array(sessionPublicKey),
-            !expiration ? [] : [BigInt(expiration * 1000000)]
-          );
+    loginReponse = await abortable(retry(request), signal);
   } catch (e) {
-    throw new Error((e as Error).message);
+    if (e instanceof SiwpError) throw e;
+    throw new SiwpError("LOGIN_FAILED", (e as Error).message, { cause: e });
   }
 
   if ("Err" in loginReponse) {
-    throw new Error(loginReponse.Err);
+    throw new SiwpError("LOGIN_REJECTED", loginReponse.Err, {
+      canisterError: loginReponse.Err,
+    });
   }
 
   return loginReponse.Ok;
 }
 
 /**
- * Retrieves a delegation from the backend for the current session.
+ * Retrieves a delegation from the backend for the current session. Right after the login
+ * the delegation may not be certified yet, so that error returned by the backend is retried
+ * as well. Other backend errors are final.
  */
 export async function callGetDelegation(
   anonymousActor: ActorSubclass<IDENTITY_SERVICE>,
   username: string | undefined,
   sessionPublicKey: DerEncodedPublicKey,
-  expiration: bigint
+  expiration: bigint,
+  targets?: Principal[],
+  signal?: AbortSignal,
+  retry = once
 ) {
   if (!anonymousActor || !username) {
-    throw new Error("Invalid actor or username");
+    throw new SiwpError("ACTOR_NOT_READY", "Invalid actor or username");
   }
 
-  const response = await anonymousActor.siwp_get_delegation(
-    username,
-    new Uint8Array(sessionPublicKey),
-    expiration
+  const args = withTargets(
+    anonymousActor,
+    "siwp_get_delegation",
+    [username, new Uint8Array(sessionPublicKey), expiration],
+    targets
   );
+  const request = async () => {
+    const response = await anonymousActor.siwp_get_delegation(...args);
+    if ("Err" in response) {
+      throw new SiwpError("DELEGATION_FAILED", response.Err, {
+        canisterError: response.Err,
+      });
+    }
+    return response.Ok;
+  };
 
-  if ("Err" in response) {
-    throw new Error(response.Err);
+  try {
+    return await abortable(retry(request), signal);
+  } catch (e) {
+    if (e instanceof SiwpError) throw e;
+    throw new SiwpError("DELEGATION_FAILED", "Unable to get identity.", {
+      cause: e,
+    });
   }
-
-  return response.Ok;
 }
@@ -1,23 +1,45 @@
 import type { DelegationChain, DelegationIdentity } from "@dfinity/identity";
 
 import type { ActorSubclass } from "@dfinity/agent";
+import type { Principal } from "@dfinity/principal";
 import type { IDENTITY_SERVICE } from "./service.interface";
+import type { IdentityAccount } from "./storage.type";
+import type { SiwpError } from "./error";
+import type { SiwpCapabilities } from "./capabilities";
 
 export type PrepareLoginStatus = "error" | "preparing" | "success" | "idle";
 export type LoginStatus = "error" | "logging-in" | "success" | "idle";
+export type RegisterStatus = "error" | "registering" | "success" | "idle";
+/** `unknown` until the stored identity has been loaded, always `unknown` on the server. */
+export type AuthStatus = "unknown" | "authenticated" | "unauthenticated";
 export type AnonymousActor = ActorSubclass<IDENTITY_SERVICE>;
+/** Service type of the identity actor when no canister service type is supplied. */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type IdentityActor = ActorSubclass<Record<string, any>>;
+export type UntypedService = Record<string, any>;
+export type IdentityActor<T extends UntypedService = UntypedService> =
+  ActorSubclass<T>;
 
-export type State = {
+export type State<T extends UntypedService = UntypedService> = {
   anonymousActor?: AnonymousActor;
-  identityActor?: IdentityActor;
+  identityActor?: IdentityActor<T>;
   isInitializing: boolean;
+  authStatus: AuthStatus;
+  sessionHint: boolean;
   prepareLoginStatus: PrepareLoginStatus;
-  prepareLoginError?: Error;
+  prepareLoginError?: SiwpError;
   loginStatus: LoginStatus;
-  loginError?: Error;
+  loginError?: SiwpError;
+  registerStatus: RegisterStatus;
+  registerError?: SiwpError;
   identity?: DelegationIdentity;
   identityId?: string;
   delegationChain?: DelegationChain;
-};
+  expiresAt?: Date;
+  targets?: Principal[];
+  isExpired: boolean;
+  isSessionInvalid: boolean;
+  requestAttempt: number;
+  isLocked: boolean;
+  isIdleWarning: boolean;
+  accounts: IdentityAccount[];
+} & SiwpCapabilities;
@@ -0,0 +1,208 @@
+import { DelegationChain, Ed25519KeyIdentity } from "@dfinity/identity";
+import type {
+  QuarantinedEntry,
+  SiweAccountsStorage,
+  SiweIdentityStorage,
+} from "./storage.type";
+
+/**
+ * The version of the stored format written by this version of the library.
+ */
+export const SIWP_STORAGE_VERSION = 2;
+
+// Quarantined entries are kept for inspection only, the oldest are dropped beyond this.
+const MAX_QUARANTINED = 10;
+
+// ECDSA key pairs of identities stored before storage keys were namespaced.
+const LEGACY_KEY_PREFIX = "siwp-identity";
+
+/**
+ * Parses values that older versions serialized to a string.
+ */
+function parseJSON(value: unknown) {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Each migration upgrades the stored state from the version of its index to the next one.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const MIGRATIONS: Array<(s: any) => any> = [
+  // 0 → 1: the single stored identity becomes the active account.
+  (s) => ({ activeUid: s.uid, accounts: [s] }),
+
+  // 1 → 2: identities without key type are Ed25519 and ECDSA key pairs keep their
+  // un-namespaced key. Sessions serialized to a string are parsed.
+  (s) => ({
+    ...s,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    accounts: (Array.isArray(s.accounts) ? s.accounts : []).map((a: any) => ({
+      ...a,
+      keyType: a?.keyType ?? "Ed25519",
+      keyId:
+        a?.keyType === "ECDSA" ? `${LEGACY_KEY_PREFIX}/${a.uid}` : undefined,
+      sessionIdentity: parseJSON(a?.sessionIdentity),
+      delegationChain: parseJSON(a?.delegationChain),
+    })),
+  }),
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function quarantine(entry: unknown, reason: string): QuarantinedEntry {
+  return { entry, reason, quarantinedAt: Date.now() };
+}
+
+/**
+ * Returns why the stored identity can't be loaded, or `undefined` if it is valid.
+ */
+export function validateIdentity(s: unknown): string | undefined {
+  if (!isObject(s) || typeof s.uid !== "string") {
+    return "Missing uid.";
+  }
+  if (s.keyType !== "Ed25519" && s.keyType !== "ECDSA") {
+    return "Unknown session key type.";
+  }
+
+  if (s.encrypted !== undefined) {
+    const e = s.encrypted;
+    return isObject(e) &&
+      typeof e.iv === "string" &&
+      typeof e.ciphertext === "string" &&
+      typeof e.credentialId === "string" &&
+      typeof e.principal === "string" &&
+      typeof e.expiresAt === "number"
+      ? undefined
+      : "Invalid encrypted session.";
+  }
+
+  try {
+    DelegationChain.fromJSON(s.delegationChain as never);
+  } catch {
+    return "Invalid delegation chain.";
+  }
+  if (s.keyType === "ECDSA") {
+    return typeof s.keyId === "string" ? undefined : "Missing key pair id.";
+  }
+  try {
+    Ed25519KeyIdentity.fromParsedJson(s.sessionIdentity as never);
+  } catch {
+    return "Invalid session key.";
+  }
+}
+
+/**
+ * Adds entries to the quarantine of the stored state.
+ */
+export function withQuarantined(
+  s: SiweAccountsStorage,
+  ...entries: QuarantinedEntry[]
+): SiweAccountsStorage {
+  if (entries.length === 0) return s;
+  return {
+    ...s,
+    quarantined: [...(s.quarantined ?? []), ...entries].slice(-MAX_QUARANTINED),
+  };
+}
+
+/**
+ * Migrates stored state of any earlier version to the current schema and quarantines the
+ * entries that can't be read. State that can't be migrated at all is quarantined as a
+ * whole.
+ *
+ * @returns The upgraded state, whether it differs from what is stored and the entries
+ * quarantined by this upgrade.
+ */
+export function upgradeAccounts(stored: unknown): {
+  s: SiweAccountsStorage;
+  changed: boolean;
+  quarantined: QuarantinedEntry[];
+} {
+  const empty: SiweAccountsStorage = {
+    version: SIWP_STORAGE_VERSION,
+    accounts: [],
+  };
+  if (stored === undefined || stored === null) {
+    return { s: empty, changed: false, quarantined: [] };
+  }
+  if (!isObject(stored)) {
+    const entry = quarantine(stored, "Not an object.");
+    return {
+      s: withQuarantined(empty, entry),
+      changed: true,
+      quarantined: [entry],
+    };
+  }
+
+  const version = stored.version ?? ("uid" in stored ? 0 : 1);
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0 ||
+    version > SIWP_STORAGE_VERSION
+  ) {
+    const entry = quarantine(stored, `Unsupported version ${String(version)}.`);
+    return {
+      s: withQuarantined(empty, entry),
+      changed: true,
+      quarantined: [entry],
+    };
+  }
+
+  let migrated = stored;
+  try {
+    for (const migrate of MIGRATIONS.slice(version)) {
+      migrated = migrate(migrated);
+    }
+  } catch (e) {
+    const entry = quarantine(stored, String(e));
+    return {
+      s: withQuarantined(empty, entry),
+      changed: true,
+      quarantined: [entry],
+    };
+  }
+
+  const accounts: SiweIdentityStorage[] = [];
+  const quarantined: QuarantinedEntry[] = [];
+  const storedAccounts: unknown[] = Array.isArray(migrated.accounts)
+    ? migrated.accounts
+    : [];
+  for (const account of storedAccounts) {
+    const reason = validateIdentity(account);
+    if (reason) {
+      quarantined.push(quarantine(account, reason));
+    } else {
+      accounts.push(account as SiweIdentityStorage);
+    }
+  }
+
+  const activeUid = accounts.some((a) => a.uid === migrated.activeUid)
+    ? (migrated.activeUid as string)
+    : undefined;
+  const s = withQuarantined(
+    {
+      version: SIWP_STORAGE_VERSION,
+      activeUid,
+      accounts,
+      quarantined: Array.isArray(migrated.quarantined)
+        ? migrated.quarantined
+        : undefined,
+    },
+    ...quarantined
+  );
+
+  return {
+    s,
+    changed:
+      stored.version !== SIWP_STORAGE_VERSION ||
+      quarantined.length > 0 ||
+      activeUid !== stored.activeUid,
+    quarantined,
+  };
+}
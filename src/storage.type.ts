@@ -1,5 +1,103 @@
+import type { Principal } from "@dfinity/principal";
+import type {
+  ECDSAKeyIdentity,
+  Ed25519KeyIdentity,
+  JsonnableDelegationChain,
+} from "@dfinity/identity";
+import type { EncryptedData } from "./session-encryption";
+
+/**
+ * The type of session key. `ECDSA` keys are non-extractable WebCrypto keys.
+ */
+export type SessionKeyType = "Ed25519" | "ECDSA";
+
+export type SessionIdentity = Ed25519KeyIdentity | ECDSAKeyIdentity;
+
 export type SiweIdentityStorage = {
   uid: string;
-  sessionIdentity: string;
-  delegationChain: string;
+  keyType: SessionKeyType;
+  /** The key of the ECDSA session key pair in the `SessionKeyStore`. */
+  keyId?: string;
+  /** The serialized Ed25519 session key. ECDSA key pairs are kept in a `SessionKeyStore`. */
+  sessionIdentity?: ReturnType<Ed25519KeyIdentity["toJSON"]>;
+  /** Missing if the session is encrypted. */
+  delegationChain?: JsonnableDelegationChain;
+  /** The session identity and delegation chain, encrypted with a key derived from the
+   * passkey's PRF output. */
+  encrypted?: EncryptedSessionStorage;
 };
+
+/**
+ * An encrypted session. The account details are readable without unlocking it.
+ */
+export type EncryptedSessionStorage = EncryptedData & {
+  /** Base64url encoded id of the passkey the encryption key is derived from. */
+  credentialId: string;
+  /** The relying party the passkey belongs to, if not the current domain. */
+  rpId?: string;
+  principal: string;
+  /** Expiration of the delegation chain in ms since the epoch. */
+  expiresAt: number;
+};
+
+/**
+ * All identities stored on the device, one per account, and the uid of the account that
+ * is currently logged in.
+ */
+export type SiweAccountsStorage = {
+  /** The schema version, see `SIWP_STORAGE_VERSION`. Older entries are migrated when they
+   * are read. */
+  version: number;
+  activeUid?: string;
+  accounts: SiweIdentityStorage[];
+  /** Entries that could not be read. They are never loaded, only kept for inspection. */
+  quarantined?: QuarantinedEntry[];
+};
+
+export type QuarantinedEntry = {
+  entry: unknown;
+  reason: string;
+  /** When the entry was quarantined, in ms since the epoch. */
+  quarantinedAt: number;
+};
+
+/**
+ * An account with a stored identity that can be switched to without logging in again.
+ */
+export type IdentityAccount = {
+  uid: string;
+  principal: Principal;
+  expiresAt: Date;
+};
+
+/**
+ * Storage for non-extractable session key pairs. They can't be serialized, so they are kept
+ * apart from the identities, by storage key and uid.
+ */
+export interface SessionKeyStore {
+  /** Returns the key pair stored for the key, or `undefined` if there is none. */
+  get(key: string): Promise<CryptoKeyPair | undefined>;
+
+  /** Stores the key pair under the key, replacing any existing entry. */
+  set(key: string, value: CryptoKeyPair): Promise<void>;
+
+  /** Removes the key pair stored for the key. */
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Storage backend for the serialized SIWP identities. All adapters store and return the
+ * same `SiweAccountsStorage` format, which makes them interchangeable.
+ */
+export interface IdentityStorage {
+  /** Returns the stored identities for the key, or `undefined` if there are none. Values
+   * that can't be parsed should be returned as is, they are quarantined when read. Read
+   * failures must be thrown, never reported as missing. */
+  get(key: string): Promise<SiweAccountsStorage | undefined>;
+
+  /** Stores the identities under the key, replacing any existing entry. */
+  set(key: string, value: SiweAccountsStorage): Promise<void>;
+
+  /** Removes the stored identities for the key. */
+  remove(key: string): Promise<void>;
+}
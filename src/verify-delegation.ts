@@ -0,0 +1,202 @@
+import {
+  Certificate,
+  Cbor,
+  LookupStatus,
+  bufEquals,
+  lookup_path,
+  lookupResultToBuffer,
+  reconstruct,
+  requestIdOf,
+  unwrapDER,
+  type DerEncodedPublicKey,
+  type HashTree,
+} from "@dfinity/agent";
+import type { DelegationChain } from "@dfinity/identity";
+import { Principal } from "@dfinity/principal";
+import { SiwpError } from "./error";
+import { matchesDelegationTargets } from "./delegation";
+
+/**
+ * A DER encoded `SEQUENCE(OID)` for canister signatures, OID 1.3.6.1.4.1.56387.1.2.
+ */
+const CANISTER_SIG_OID = Uint8Array.from([
+  0x30, 0x0c, 0x06, 0x0a, 0x2b, 0x06, 0x01, 0x04, 0x01, 0x83, 0xb8, 0x43, 0x01,
+  0x02,
+]);
+
+const DELEGATION_DOMAIN_SEPARATOR = new TextEncoder().encode(
+  "\x1Aic-request-auth-delegation"
+);
+
+/**
+ * Tolerated difference between the canister's and the browser's clock, in nanoseconds.
+ */
+const MAX_CLOCK_DRIFT = BigInt(5 * 60 * 1000) * BigInt(1000000);
+
+export type VerifyDelegationOptions = {
+  /** The DER encoded session key the delegation must be issued to. */
+  sessionPublicKey: DerEncodedPublicKey;
+
+  /** The latest acceptable expiration in nanoseconds since the epoch. */
+  maxExpiration?: bigint;
+
+  /** The targets that were requested. */
+  targets?: Principal[];
+
+  /** If set, the certificate in the canister signature is verified against this IC root
+   * key, proving that the canister issued the delegation. */
+  rootKey?: ArrayBuffer;
+};
+
+type CanisterSignature = {
+  certificate: ArrayBuffer;
+  tree: HashTree;
+};
+
+function invalid(message: string, cause?: unknown): never {
+  throw new SiwpError("DELEGATION_INVALID", message, { cause });
+}
+
+async function sha256(data: ArrayBuffer | Uint8Array) {
+  return crypto.subtle.digest("SHA-256", data);
+}
+
+/**
+ * Splits a DER encoded canister signature public key into the id of the signing canister
+ * and the seed.
+ */
+function parseCanisterPublicKey(publicKey: DerEncodedPublicKey) {
+  let raw: Uint8Array;
+  try {
+    raw = unwrapDER(publicKey, CANISTER_SIG_OID);
+  } catch (e) {
+    invalid("The user public key is not a canister signature public key.", e);
+  }
+
+  const length = raw[0];
+  if (length === undefined || raw.length < length + 1) {
+    invalid("The user public key is not a canister signature public key.");
+  }
+
+  return {
+    canisterId: Principal.fromUint8Array(raw.slice(1, length + 1)),
+    seed: raw.slice(length + 1),
+  };
+}
+
+/**
+ * Returns the id of the canister that signed the delegation chain, or `undefined` if the
+ * chain is not signed with a canister signature.
+ */
+export function getDelegationChainCanisterId(delegationChain: DelegationChain) {
+  try {
+    return parseCanisterPublicKey(delegationChain.publicKey).canisterId;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks that the canister signature signs the message: the signature's hash tree must
+ * contain the path `sig/<seed hash>/<message hash>`. With a root key, the certificate is
+ * verified as well and must certify the hash tree.
+ */
+async function verifyCanisterSignature(
+  signature: ArrayBuffer,
+  message: Uint8Array,
+  publicKey: DerEncodedPublicKey,
+  rootKey?: ArrayBuffer
+) {
+  const { canisterId, seed } = parseCanisterPublicKey(publicKey);
+
+  let decoded: CanisterSignature;
+  try {
+    decoded = Cbor.decode<CanisterSignature>(signature);
+  } catch (e) {
+    invalid("The delegation signature is not a canister signature.", e);
+  }
+  if (!decoded?.certificate || !decoded.tree) {
+    invalid("The delegation signature is not a canister signature.");
+  }
+
+  const path = ["sig", await sha256(seed), await sha256(message)];
+  if (lookup_path(path, decoded.tree).status !== LookupStatus.Found) {
+    invalid("The delegation signature does not sign this delegation.");
+  }
+
+  if (!rootKey) return;
+
+  let certificate: Certificate;
+  try {
+    certificate = await Certificate.create({
+      certificate: new Uint8Array(decoded.certificate).buffer,
+      rootKey,
+      canisterId,
+    });
+  } catch (e) {
+    invalid("The delegation signature certificate is invalid.", e);
+  }
+
+  const certifiedData = lookupResultToBuffer(
+    certificate.lookup([
+      "canister",
+      canisterId.toUint8Array().slice().buffer,
+      "certified_data",
+    ])
+  );
+  if (
+    !certifiedData ||
+    !bufEquals(certifiedData, await reconstruct(decoded.tree))
+  ) {
+    invalid("The delegation signature is not certified by the canister.");
+  }
+}
+
+/**
+ * Verifies a delegation chain received from the canister before it is used: the delegation
+ * must be issued to the session key, must not be expired or last longer than requested,
+ * must be restricted to the requested targets and must be signed by the user's canister
+ * public key.
+ *
+ * @throws {SiwpError} A `DELEGATION_INVALID` error describing the first failed check.
+ */
+export async function verifyDelegationChain(
+  delegationChain: DelegationChain,
+  { sessionPublicKey, maxExpiration, targets, rootKey }: VerifyDelegationOptions
+) {
+  const [signedDelegation, ...rest] = delegationChain.delegations;
+  if (!signedDelegation || rest.length > 0) {
+    invalid("Expected a delegation chain with a single delegation.");
+  }
+  const { delegation, signature } = signedDelegation;
+
+  if (!bufEquals(delegation.pubkey, sessionPublicKey)) {
+    invalid("The delegation is not issued to the session key.");
+  }
+
+  const now = BigInt(Date.now()) * BigInt(1000000);
+  if (delegation.expiration <= now) {
+    invalid("The delegation has already expired.");
+  }
+  if (
+    maxExpiration !== undefined &&
+    delegation.expiration > maxExpiration + MAX_CLOCK_DRIFT
+  ) {
+    invalid("The delegation expires later than requested.");
+  }
+
+  if (!matchesDelegationTargets(delegation.targets, targets)) {
+    invalid("Delegation targets don't match the requested targets.");
+  }
+
+  const message = new Uint8Array([
+    ...DELEGATION_DOMAIN_SEPARATOR,
+    ...new Uint8Array(requestIdOf({ ...delegation })),
+  ]);
+  await verifyCanisterSignature(
+    signature,
+    message,
+    delegationChain.publicKey,
+    rootKey
+  );
+}